@@ -6,6 +6,7 @@ import DrawingScreen from "@/components/DrawingScreen"
 import LoadingScreen from "@/components/LoadingScreen"
 import ErrorBoundary from "@/components/ErrorBoundary"
 import { processImage, type ProcessedImageData } from "@/lib/processImage"
+import { COLOR_BY_NUMBER_PAGES } from "@/lib/colorByNumberPages"
 
 import atomImage from "@/assets/images/atom.png"
 import balloonImage from "@/assets/images/balloon.png"
@@ -24,6 +25,7 @@ import starImage from "@/assets/images/star.png"
 import sunImage from "@/assets/images/sun.png"
 import triangleImage from "@/assets/images/triangle.png"
 
+// gapSize bridges breaks in a page's outlines up to that many pixels wide
 const IMAGES = [
   { id: 0, name: "Empty", src: emptyImage },
   { id: 1, name: "Circle", src: circleImage },
@@ -36,7 +38,7 @@ const IMAGES = [
   { id: 8, name: "Candy Cane", src: candyCaneImage },
   { id: 9, name: "Puzzle", src: puzzleImage },
   { id: 10, name: "Atom", src: atomImage },
-  { id: 11, name: "Elephant", src: elephantImage },
+  { id: 11, name: "Elephant", src: elephantImage, gapSize: 2 },
   { id: 12, name: "Paw Print", src: pawImage },
   { id: 13, name: "Seaweed", src: seaweedImage },
   { id: 14, name: "Snowflake", src: snowflakeImage },
@@ -50,11 +52,13 @@ export default function Home() {
   const [processedData, setProcessedData] = useState<ProcessedImageData | null>(
     null
   )
+  const [progress, setProgress] = useState(0)
 
   const handleImageSelect = async (image: (typeof IMAGES)[0]) => {
     setSelectedImage(image)
+    setProgress(0)
     try {
-      const data = await processImage(image.src)
+      const data = await processImage(image.src, setProgress, image.gapSize)
       setProcessedData(data)
     } catch (error) {
       console.error("Error processing image:", error)
@@ -71,7 +75,7 @@ export default function Home() {
   if (selectedImage && !processedData) {
     return (
       <div className="h-full overflow-hidden">
-        <LoadingScreen />
+        <LoadingScreen progress={progress} />
       </div>
     )
   }
@@ -81,7 +85,11 @@ export default function Home() {
     return (
       <div className="h-full overflow-hidden">
         <ErrorBoundary onReset={handleBack}>
-          <DrawingScreen data={processedData} onBack={handleBack} />
+          <DrawingScreen
+            data={processedData}
+            colorByNumber={selectedImage ? COLOR_BY_NUMBER_PAGES[selectedImage.name] : undefined}
+            onBack={handleBack}
+          />
         </ErrorBoundary>
       </div>
     )
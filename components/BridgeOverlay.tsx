@@ -0,0 +1,41 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+
+interface BridgeOverlayProps {
+  bridges: Uint8Array // 1 where gap closing bridged an outline
+  width: number
+  height: number
+}
+
+// Debug view: marks the pixels that gap closing added to the outlines
+export default function BridgeOverlay({ bridges, width, height }: BridgeOverlayProps) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+
+    const ctx = canvas.getContext("2d")
+    if (!ctx) return
+
+    const imageData = ctx.createImageData(width, height)
+    for (let i = 0; i < bridges.length; i++) {
+      if (bridges[i] === 0) continue
+      imageData.data[i * 4] = 255
+      imageData.data[i * 4 + 1] = 0
+      imageData.data[i * 4 + 2] = 255
+      imageData.data[i * 4 + 3] = 255
+    }
+    ctx.putImageData(imageData, 0, 0)
+  }, [bridges, width, height])
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={width}
+      height={height}
+      className="absolute top-0 left-0 w-full h-full pointer-events-none"
+    />
+  )
+}
@@ -1,19 +1,51 @@
 "use client"
 
-import { ShapesIcon, PencilIcon, EraserIcon } from "lucide-react"
+import {
+  ShapesIcon,
+  PencilIcon,
+  EraserIcon,
+  PaintbrushIcon,
+  PaintBucketIcon,
+  PenLineIcon,
+  BrushIcon,
+  HighlighterIcon,
+  DropletsIcon,
+  SparklesIcon,
+  StickerIcon,
+  FlipHorizontal2Icon,
+  FlipVertical2Icon,
+  SnowflakeIcon,
+  type LucideIcon,
+} from "lucide-react"
+import { BRUSH_TYPES, type BrushType } from "@/lib/brushes"
+import type { Symmetry, SymmetryMode } from "@/lib/symmetry"
+import type { EraserType } from "@/lib/strokeRenderer"
+import { KALEIDOSCOPE_SEGMENTS } from "@/lib/constants"
+import StampPicker from "./StampPicker"
 
-export type BrushType = "solid" | "soft"
+export type { BrushType }
 export type BrushSize = "small" | "medium" | "large"
+export type Tool = "brush" | "bucket" | "stamp"
 
 interface BrushSettingsProps {
+  tool: Tool
+  onToolChange: (tool: Tool) => void
+  stampId: string
+  onStampChange: (stampId: string) => void
   size: BrushSize
   onSizeChange: (size: BrushSize) => void
   brushType: BrushType
   onBrushTypeChange: (type: BrushType) => void
   isEraser: boolean
   onEraserChange: (value: boolean) => void
+  eraserType: EraserType
+  onEraserTypeChange: (type: EraserType) => void
+  symmetry: Symmetry
+  onSymmetryChange: (symmetry: Symmetry) => void
   stayWithinLines: boolean
   onStayWithinLinesChange: (value: boolean) => void
+  pencilOnly: boolean
+  onPencilOnlyChange: (value: boolean) => void
 }
 
 const BRUSH_SIZES = {
@@ -22,119 +54,286 @@ const BRUSH_SIZES = {
   large: 50,
 }
 
+// Icon for each brush (solid and soft are shown as a sharp and a blurred dot)
+const BRUSH_ICONS: Record<BrushType, LucideIcon | "dot" | "soft-dot"> = {
+  solid: "dot",
+  soft: "soft-dot",
+  crayon: BrushIcon,
+  marker: HighlighterIcon,
+  watercolor: DropletsIcon,
+  glitter: SparklesIcon,
+}
+
+const ERASER_TYPES: EraserType[] = ["solid", "soft"]
+
+// Symmetry modes that have a button (tapping the selected one turns symmetry off)
+const SYMMETRY_ICONS: Partial<Record<SymmetryMode, LucideIcon>> = {
+  horizontal: FlipHorizontal2Icon,
+  vertical: FlipVertical2Icon,
+  kaleidoscope: SnowflakeIcon,
+}
+
+// The symmetry after tapping a mode's button: kaleidoscope cycles through its
+// segment counts before turning off, the mirrors simply toggle
+function getNextSymmetry(symmetry: Symmetry, mode: SymmetryMode): Symmetry {
+  if (symmetry.mode !== mode) {
+    const segments = mode === "kaleidoscope" ? KALEIDOSCOPE_SEGMENTS[0] : symmetry.segments
+    return { mode, segments }
+  }
+  if (mode === "kaleidoscope") {
+    const index = KALEIDOSCOPE_SEGMENTS.findIndex((count) => count === symmetry.segments)
+    const next = KALEIDOSCOPE_SEGMENTS[index + 1]
+    if (next !== undefined) return { mode, segments: next }
+  }
+  return { mode: "none", segments: symmetry.segments }
+}
+
 export default function BrushSettings({
+  tool,
+  onToolChange,
+  stampId,
+  onStampChange,
   size,
   onSizeChange,
   brushType,
   onBrushTypeChange,
   isEraser,
   onEraserChange,
+  eraserType,
+  onEraserTypeChange,
+  symmetry,
+  onSymmetryChange,
   stayWithinLines,
   onStayWithinLinesChange,
+  pencilOnly,
+  onPencilOnlyChange,
 }: BrushSettingsProps) {
   return (
     <div className="flex portrait:contents landscape:flex-col landscape:flex-wrap gap-4">
-      {/* Brush Size Buttons */}
+      {/* Tool Buttons (brush strokes or tap-to-fill bucket; bucket and stamp turn the eraser off) */}
       <div className="flex portrait:flex-row landscape:flex-col gap-3 p-2 bg-white dark:bg-gray-800 rounded-xl border-4 border-gray-300 dark:border-gray-700 portrait:h-20 landscape:w-20 items-center">
         <button
-          onClick={() => onSizeChange("small")}
+          onClick={() => onToolChange("brush")}
           className={`h-14 aspect-square rounded-xl border-4 flex items-center justify-center transition-all ${
-            size === "small"
+            tool === "brush"
               ? "bg-blue-500 border-blue-600 scale-105"
               : "bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:border-blue-400"
           }`}
         >
-          <div
-            className={`rounded-full ${
-              size === "small" ? "bg-white" : "bg-gray-800 dark:bg-gray-200"
-            }`}
-            style={{ width: "12px", height: "12px" }}
+          <PaintbrushIcon
+            className={
+              tool === "brush" ? "text-white" : "text-gray-800 dark:text-gray-200"
+            }
+            size={28}
           />
         </button>
 
         <button
-          onClick={() => onSizeChange("medium")}
+          onClick={() => {
+            onToolChange("bucket")
+            onEraserChange(false)
+          }}
           className={`h-14 aspect-square rounded-xl border-4 flex items-center justify-center transition-all ${
-            size === "medium"
+            tool === "bucket"
               ? "bg-blue-500 border-blue-600 scale-105"
               : "bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:border-blue-400"
           }`}
         >
-          <div
-            className={`rounded-full ${
-              size === "medium" ? "bg-white" : "bg-gray-800 dark:bg-gray-200"
-            }`}
-            style={{ width: "20px", height: "20px" }}
+          <PaintBucketIcon
+            className={
+              tool === "bucket" ? "text-white" : "text-gray-800 dark:text-gray-200"
+            }
+            size={28}
           />
         </button>
 
         <button
-          onClick={() => onSizeChange("large")}
+          onClick={() => {
+            onToolChange("stamp")
+            onEraserChange(false)
+          }}
           className={`h-14 aspect-square rounded-xl border-4 flex items-center justify-center transition-all ${
-            size === "large"
+            tool === "stamp"
+              ? "bg-blue-500 border-blue-600 scale-105"
+              : "bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:border-blue-400"
+          }`}
+        >
+          <StickerIcon
+            className={
+              tool === "stamp" ? "text-white" : "text-gray-800 dark:text-gray-200"
+            }
+            size={28}
+          />
+        </button>
+      </div>
+
+      {/* Brush Size Buttons */}
+      <div className="flex portrait:flex-row landscape:flex-col gap-3 p-2 bg-white dark:bg-gray-800 rounded-xl border-4 border-gray-300 dark:border-gray-700 portrait:h-20 landscape:w-20 items-center">
+        <button
+          onClick={() => onSizeChange("small")}
+          className={`h-14 aspect-square rounded-xl border-4 flex items-center justify-center transition-all ${
+            size === "small"
               ? "bg-blue-500 border-blue-600 scale-105"
               : "bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:border-blue-400"
           }`}
         >
           <div
             className={`rounded-full ${
-              size === "large" ? "bg-white" : "bg-gray-800 dark:bg-gray-200"
+              size === "small" ? "bg-white" : "bg-gray-800 dark:bg-gray-200"
             }`}
-            style={{ width: "32px", height: "32px" }}
+            style={{ width: "12px", height: "12px" }}
           />
         </button>
-      </div>
 
-      {/* Brush Type Buttons */}
-      <div className="flex portrait:flex-row landscape:flex-col gap-3 p-2 bg-white dark:bg-gray-800 rounded-xl border-4 border-gray-300 dark:border-gray-700 portrait:h-20 landscape:w-20 items-center">
         <button
-          onClick={() => onBrushTypeChange("solid")}
+          onClick={() => onSizeChange("medium")}
           className={`h-14 aspect-square rounded-xl border-4 flex items-center justify-center transition-all ${
-            brushType === "solid"
+            size === "medium"
               ? "bg-blue-500 border-blue-600 scale-105"
               : "bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:border-blue-400"
           }`}
         >
           <div
             className={`rounded-full ${
-              brushType === "solid"
-                ? "bg-white"
-                : "bg-gray-800 dark:bg-gray-200"
+              size === "medium" ? "bg-white" : "bg-gray-800 dark:bg-gray-200"
             }`}
-            style={{ width: "24px", height: "24px" }}
+            style={{ width: "20px", height: "20px" }}
           />
         </button>
 
         <button
-          onClick={() => onBrushTypeChange("soft")}
+          onClick={() => onSizeChange("large")}
           className={`h-14 aspect-square rounded-xl border-4 flex items-center justify-center transition-all ${
-            brushType === "soft"
+            size === "large"
               ? "bg-blue-500 border-blue-600 scale-105"
               : "bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:border-blue-400"
           }`}
         >
           <div
-            className={`rounded-full blur-sm ${
-              brushType === "soft" ? "bg-white" : "bg-gray-800 dark:bg-gray-200"
+            className={`rounded-full ${
+              size === "large" ? "bg-white" : "bg-gray-800 dark:bg-gray-200"
             }`}
-            style={{ width: "24px", height: "24px" }}
+            style={{ width: "32px", height: "32px" }}
           />
         </button>
       </div>
 
-      {/* Eraser Toggle */}
+      {/* Stamp Buttons while stamping, otherwise Brush Type Buttons */}
+      {tool === "stamp" ? (
+        <StampPicker selectedStamp={stampId} onStampChange={onStampChange} />
+      ) : (
+        <div className="flex portrait:flex-row landscape:flex-col gap-3 p-2 bg-white dark:bg-gray-800 rounded-xl border-4 border-gray-300 dark:border-gray-700 portrait:h-20 landscape:w-20 items-center">
+          {BRUSH_TYPES.map((type) => {
+            const Icon = BRUSH_ICONS[type]
+            const selected = brushType === type
+
+            return (
+              <button
+                key={type}
+                onClick={() => onBrushTypeChange(type)}
+                className={`h-14 aspect-square rounded-xl border-4 flex items-center justify-center transition-all ${
+                  selected
+                    ? "bg-blue-500 border-blue-600 scale-105"
+                    : "bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:border-blue-400"
+                }`}
+              >
+                {Icon === "dot" || Icon === "soft-dot" ? (
+                  <div
+                    className={`rounded-full ${Icon === "soft-dot" ? "blur-sm" : ""} ${
+                      selected ? "bg-white" : "bg-gray-800 dark:bg-gray-200"
+                    }`}
+                    style={{ width: "24px", height: "24px" }}
+                  />
+                ) : (
+                  <Icon
+                    className={
+                      selected ? "text-white" : "text-gray-800 dark:text-gray-200"
+                    }
+                    size={28}
+                  />
+                )}
+              </button>
+            )
+          })}
+        </div>
+      )}
+
+      {/* Eraser Toggles (hard and soft; tapping the selected one turns the eraser off) */}
+      <div className="flex portrait:flex-row landscape:flex-col gap-3 p-2 bg-white dark:bg-gray-800 rounded-xl border-4 border-gray-300 dark:border-gray-700 portrait:h-20 landscape:w-20 items-center">
+        {ERASER_TYPES.map((type) => {
+          const isSelected = isEraser && eraserType === type
+          return (
+            <button
+              key={type}
+              onClick={() => {
+                onEraserTypeChange(type)
+                onEraserChange(!isSelected)
+                // Erasing is a brush stroke; bucket and stamp have no eraser
+                if (!isSelected) onToolChange("brush")
+              }}
+              className={`h-14 aspect-square rounded-xl border-4 flex items-center justify-center transition-all ${
+                isSelected
+                  ? "bg-blue-500 border-blue-600 scale-105"
+                  : "bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:border-blue-400"
+              }`}
+            >
+              <EraserIcon
+                className={`${type === "soft" ? "blur-[1px]" : ""} ${
+                  isSelected ? "text-white" : "text-gray-800 dark:text-gray-200"
+                }`}
+                size={24}
+              />
+            </button>
+          )
+        })}
+      </div>
+
+      {/* Symmetry Buttons (mirror or kaleidoscope copies of every stroke) */}
+      <div className="flex portrait:flex-row landscape:flex-col gap-3 p-2 bg-white dark:bg-gray-800 rounded-xl border-4 border-gray-300 dark:border-gray-700 portrait:h-20 landscape:w-20 items-center">
+        {(Object.keys(SYMMETRY_ICONS) as SymmetryMode[]).map((mode) => {
+          const Icon = SYMMETRY_ICONS[mode]
+          if (!Icon) return null
+          const isSelected = symmetry.mode === mode
+          return (
+            <button
+              key={mode}
+              onClick={() => onSymmetryChange(getNextSymmetry(symmetry, mode))}
+              className={`relative h-14 aspect-square rounded-xl border-4 flex items-center justify-center transition-all ${
+                isSelected
+                  ? "bg-blue-500 border-blue-600 scale-105"
+                  : "bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:border-blue-400"
+              }`}
+            >
+              <Icon
+                className={
+                  isSelected ? "text-white" : "text-gray-800 dark:text-gray-200"
+                }
+                size={28}
+              />
+              {/* Segment count badge */}
+              {isSelected && mode === "kaleidoscope" && (
+                <span className="absolute -top-2 -right-2 min-w-6 h-6 px-1 rounded-full bg-white dark:bg-gray-800 border-2 border-blue-600 text-xs font-bold text-blue-600 flex items-center justify-center">
+                  {symmetry.segments}
+                </span>
+              )}
+            </button>
+          )
+        })}
+      </div>
+
+      {/* Pencil Only Toggle (fingers and resting hands don't draw) */}
       <div className="flex portrait:flex-row landscape:flex-col gap-3 p-2 bg-white dark:bg-gray-800 rounded-xl border-4 border-gray-300 dark:border-gray-700 portrait:h-20 landscape:w-20 items-center">
         <button
-          onClick={() => onEraserChange(!isEraser)}
+          onClick={() => onPencilOnlyChange(!pencilOnly)}
           className={`h-14 aspect-square rounded-xl border-4 flex items-center justify-center transition-all ${
-            isEraser
+            pencilOnly
               ? "bg-blue-500 border-blue-600 scale-105"
               : "bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:border-blue-400"
           }`}
         >
-          <EraserIcon
+          <PenLineIcon
             className={
-              isEraser ? "text-white" : "text-gray-800 dark:text-gray-200"
+              pencilOnly ? "text-white" : "text-gray-800 dark:text-gray-200"
             }
             size={24}
           />
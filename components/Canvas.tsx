@@ -1,25 +1,97 @@
 "use client"
 
-import { useEffect, useRef, useState, useImperativeHandle, forwardRef } from "react"
-import { getCanvasCoordinates } from "@/lib/canvasUtils"
+import { useEffect, useMemo, useRef, useState, useImperativeHandle, forwardRef } from "react"
+import {
+  getPageCoordinates,
+  getCoalescedPointerEvents,
+  getPredictedPointerEvents,
+  getRenderScale,
+} from "@/lib/canvasUtils"
 import {
   findLayerAtPoint,
-  drawStrokeWithClipping,
+  getLayerBounds,
+  rescaleLayers,
   type DrawingLayer,
   type LayerLookupTable,
 } from "@/lib/layerGeneration"
-import type { BrushType } from "./BrushSettings"
-import { SIGNIFICANT_MOVEMENT_THRESHOLD, FPS_LOG_INTERVAL_MS } from "@/lib/constants"
+import {
+  createStrokePoint,
+  getTouchPointerFields,
+  renderStrokePath,
+  getStrokeBounds,
+  type BrushStyle,
+  type EraserType,
+  type StrokePoint,
+} from "@/lib/strokeRenderer"
+import { createStrokeSmoother, type StrokeSmoother } from "@/lib/strokeSmoothing"
+import { createHistory } from "@/lib/history"
+import type { PixelRect } from "@/lib/pixelRect"
+import { createLayerCompositor, type LayerCompositor } from "@/lib/layerCompositor"
+import { getStampBounds } from "@/lib/stamps"
+import type { PatternFill, PatternType } from "@/lib/patterns"
+import { getSymmetryTransforms, type PointTransform, type Symmetry } from "@/lib/symmetry"
+import { createInputArbiter, getContactKey, type ContactKey } from "@/lib/inputArbitration"
+import {
+  IDENTITY_VIEW,
+  beginPinch,
+  updatePinch,
+  type PinchGesture,
+  type ViewTransform,
+} from "@/lib/viewTransform"
+import {
+  drawStrokeOnTarget,
+  getActionLayers,
+  getRegionActions,
+  renderAction,
+  renderDrawingLog,
+  type DrawingAction,
+  type DrawingLog,
+  type DrawingStep,
+  type StrokeAction,
+} from "@/lib/drawingLog"
+import type { BrushType, Tool } from "./BrushSettings"
+import {
+  SIGNIFICANT_MOVEMENT_THRESHOLD,
+  LONG_PRESS_MS,
+  LONG_PRESS_TOLERANCE_PX,
+  FPS_LOG_INTERVAL_MS,
+  DEFAULT_STROKE_STABILIZATION,
+  HISTORY_MAX_DEPTH,
+  HISTORY_MAX_BYTES,
+  MIN_ZOOM,
+  STAMP_SIZE_SCALE,
+} from "@/lib/constants"
 
 interface CanvasProps {
   layers: DrawingLayer[]
   lookupTable: LayerLookupTable
+  tool: Tool
   fillColor: string
+  secondaryColor: string // Background of patterns and the far end of gradients
+  pattern: PatternType | null // Paint with a pattern instead of the flat color
+  stampId: string
   brushSize: number
   brushType: BrushType
   isEraser: boolean
+  eraserType: EraserType
   stayWithinLines: boolean
+  symmetry: Symmetry
+  pencilOnly?: boolean // Ignore finger touches for drawing (pinch zoom still works)
+  lockedLayerIds?: ReadonlySet<number> // Regions nothing can draw on (e.g. finished color-by-number regions)
+  stabilization?: number
+  maxHistoryDepth?: number
+  maxHistoryBytes?: number
   onHistoryChange?: () => void
+  // Called when a region is pressed and held (position is relative to the visible view, 0-1)
+  onRegionLongPress?: (layerId: number, position: { x: number; y: number }) => void
+  onZoomChange?: (isZoomed: boolean) => void
+  // Called when the layers are re-rendered at another scale (canvas pixels per page pixel)
+  onRenderScaleChange?: (scale: number) => void
+  // Called for each region a finished stay-within-lines stroke painted with a flat color
+  // (a region fill made from it joins the stroke's undo step)
+  onRegionStroke?: (layerId: number, color: string) => void
+  // Drawn above the layers and zoomed along with them (e.g. the outline)
+  children?: React.ReactNode
 }
 
 export interface CanvasRef {
@@ -29,6 +101,28 @@ export interface CanvasRef {
   canRedo: () => boolean
   clear: () => void
   save: (outlineImage?: HTMLImageElement) => string
+  getDrawingLog: () => DrawingLog
+  loadDrawingLog: (log: DrawingLog) => void
+  clearRegion: (layerId: number) => void
+  undoRegion: (layerId: number) => void
+  canUndoRegion: (layerId: number) => boolean
+  fillRegion: (layerId: number, color: string) => void
+  resetZoom: () => void
+  // Show layer changes made outside the canvas (e.g. by replay)
+  redraw: () => void
+}
+
+// Where one copy of a symmetric stroke goes (the layer is null in free mode)
+interface SymmetryTarget {
+  transform: PointTransform
+  layer: DrawingLayer | null
+}
+
+// A stroke being drawn, with its own smoother so every copy commits in step
+interface ActiveStroke {
+  action: StrokeAction
+  smoother: StrokeSmoother
+  transform: PointTransform
 }
 
 // Performance debugging flag - set to true only during development
@@ -37,27 +131,72 @@ const DEBUG_PERFORMANCE = false
 const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas({
   layers,
   lookupTable,
+  tool,
   fillColor,
+  secondaryColor,
+  pattern,
+  stampId,
   brushSize,
   brushType,
   isEraser,
+  eraserType,
   stayWithinLines,
+  symmetry,
+  pencilOnly = false,
+  lockedLayerIds,
+  stabilization = DEFAULT_STROKE_STABILIZATION,
+  maxHistoryDepth = HISTORY_MAX_DEPTH,
+  maxHistoryBytes = HISTORY_MAX_BYTES,
   onHistoryChange,
+  onRegionLongPress,
+  onZoomChange,
+  onRenderScaleChange,
+  onRegionStroke,
+  children,
 }, ref) {
+  const viewportRef = useRef<HTMLDivElement>(null)
   const containerRef = useRef<HTMLDivElement>(null)
 
+  // Page size in pixels (layers only cover their own region)
+  const { width: pageWidth, height: pageHeight } = lookupTable
+
+  // Canvas pixels per page pixel that match the display (the layers follow once no stroke is in progress)
+  const [renderScale, setRenderScale] = useState(1)
+
+  // Pinch-to-zoom and two-finger pan
+  const [view, setView] = useState<ViewTransform>(IDENTITY_VIEW)
+  const pinchRef = useRef<PinchGesture | null>(null)
+  const isGesturingRef = useRef(false) // Stays set until every finger has lifted
+  const isZoomed = view.scale > MIN_ZOOM
+
   // Drawing state
   const [isDrawing, setIsDrawing] = useState(false)
   const activeLayerRef = useRef<DrawingLayer | null>(null)
-  const lastPointRef = useRef<{ x: number; y: number } | null>(null)
+  const lastPointRef = useRef<StrokePoint | null>(null)
   const hasMovedRef = useRef(false)
   const hasStateCapturedRef = useRef(false)
 
+  // Copies of the stroke and the layers they draw on (the child's own stroke first);
+  // kept after leaving the canvas so re-entry continues on the same regions
+  const symmetryTargetsRef = useRef<SymmetryTarget[]>([])
+
+  // The visible canvas the layers are composited onto
+  const displayCanvasRef = useRef<HTMLCanvasElement | null>(null)
+
+  // The preview of the strokes' uncommitted tails
+  const previewCanvasRef = useRef<HTMLCanvasElement | null>(null)
+  const previewMaskCanvasRef = useRef<HTMLCanvasElement | null>(null)
+
+  // Long-press detection (press and hold a region without moving)
+  const longPressTimerRef = useRef<number | null>(null)
+  const pressStartRef = useRef<{ x: number; y: number } | null>(null)
+
   // Global pointer position tracking (for edge gap fix)
   const lastGlobalPositionRef = useRef<{ x: number; y: number } | null>(null)
 
-  // Track last event time to prevent double-firing from both pointer and touch
-  const lastEventTimeRef = useRef<number>(0)
+  // Decides which contact draws (palm rejection, and de-duplication of the
+  // same touch reported by both pointer events and the touch fallback)
+  const arbiter = useMemo(() => createInputArbiter(), [])
 
   // Performance profiling (only active when DEBUG_PERFORMANCE is true)
   const frameCountRef = useRef(0)
@@ -66,107 +205,189 @@ const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas({
     drawStrokeTime: 0,
     totalMoveTime: 0,
     sampleCount: 0,
+    compositeTime: 0,
+    compositePixels: 0,
+    compositeCount: 0,
   })
 
-  // Undo/redo history - store ImageData snapshots
-  const undoStackRef = useRef<Map<number, ImageData>[]>([])
-  const redoStackRef = useRef<Map<number, ImageData>[]>([])
+  // Composites the off-DOM layers onto the one visible canvas, once per frame
+  const compositorRef = useRef<LayerCompositor | null>(null)
+  const invalidate = (rect?: PixelRect) => compositorRef.current?.invalidate(rect)
 
-  // Capture current state of all layers
-  const captureState = (): Map<number, ImageData> => {
-    const state = new Map<number, ImageData>()
-    layers.forEach((layer) => {
-      const imageData = layer.ctx.getImageData(0, 0, layer.canvas.width, layer.canvas.height)
-      state.set(layer.id, imageData)
-    })
-    return state
+  // Undo/redo history - stores only the tiles each action changed
+  // (reset along with the drawing log whenever new layers are mounted)
+  const history = useMemo(
+    () => createHistory({ maxDepth: maxHistoryDepth, maxBytes: maxHistoryBytes }),
+    [maxHistoryDepth, maxHistoryBytes]
+  )
+
+  // Drawing log - one step of actions per undo entry (the stroke being drawn is the last action)
+  const logRef = useRef<DrawingStep[]>([])
+  const redoLogRef = useRef<DrawingStep[]>([])
+  const activeStrokesRef = useRef<ActiveStroke[]>([])
+
+  // Start a new undo step: open a history entry and a new log step
+  const beginHistoryStep = (): DrawingStep => {
+    history.begin()
+
+    const step: DrawingStep = []
+    logRef.current.push(step)
+    return step
   }
 
-  // Restore state to all layers
-  const restoreState = (state: Map<number, ImageData>) => {
-    layers.forEach((layer) => {
-      const imageData = state.get(layer.id)
-      if (imageData) {
-        layer.ctx.clearRect(0, 0, layer.canvas.width, layer.canvas.height)
-        layer.ctx.putImageData(imageData, 0, 0)
-      }
-    })
+  // Close the open undo step. Redo is only given up here, so a stroke that is
+  // taken back before it ends (long press, pinch, palm takeover) keeps it
+  const commitHistoryStep = () => {
+    history.commit() // Also clears the redo stack
+    redoLogRef.current = []
+  }
+
+  // Set while a finished stroke reports its regions, so the actions that follow
+  // from it go into the stroke's undo step
+  const isReportingStrokeRef = useRef(false)
+
+  // Record an action in its own undo step and render it (same path as replay)
+  // Only the bounds the action can change are snapshotted (the whole layer by default)
+  const performAction = (action: DrawingAction, bounds?: PixelRect) => {
+    const previous = logRef.current.flat()
+    const joinsStroke = isReportingStrokeRef.current
+    const step = joinsStroke ? logRef.current[logRef.current.length - 1] : beginHistoryStep()
+    step.push(action)
+
+    // Fills and clears may cover whole layers; unchanged tiles are dropped on commit
+    getActionLayers(layers, action).forEach((layer) =>
+      history.touch(layer, bounds ?? { x: 0, y: 0, width: pageWidth, height: pageHeight })
+    )
+
+    renderAction(layers, action, previous)
+    invalidate(bounds)
+
+    // The stroke commits its entry (with this action's tiles) once it has reported
+    if (joinsStroke) return
+    commitHistoryStep()
+    onHistoryChange?.()
   }
 
   // Expose undo/redo methods via ref
   useImperativeHandle(ref, () => ({
     undo: () => {
-      if (undoStackRef.current.length === 0) return
+      // Restore the changed tiles (the history keeps the current ones for redo)
+      const applied = history.undo()
+      if (!applied) return
 
-      // Save current state to redo stack
-      const currentState = captureState()
-      redoStackRef.current.push(currentState)
+      // Move the matching log step to the redo log
+      const step = logRef.current.pop()
+      if (step) redoLogRef.current.push(step)
 
-      // Pop and restore from undo stack
-      const stateToRestore = undoStackRef.current.pop()!
-      restoreState(stateToRestore)
+      // Steps from before a scale change have no tiles: re-render the log without it
+      if (applied === "replay") renderDrawingLog(layers, logRef.current)
+      invalidate()
 
       // Notify parent of history change
       onHistoryChange?.()
     },
     redo: () => {
-      if (redoStackRef.current.length === 0) return
+      const applied = history.redo()
+      if (!applied) return
 
-      // Save current state to undo stack
-      const currentState = captureState()
-      undoStackRef.current.push(currentState)
+      const step = redoLogRef.current.pop()
+      if (step) logRef.current.push(step)
 
-      // Pop and restore from redo stack
-      const stateToRestore = redoStackRef.current.pop()!
-      restoreState(stateToRestore)
+      if (applied === "replay") renderDrawingLog(layers, logRef.current)
+      invalidate()
 
       // Notify parent of history change
       onHistoryChange?.()
     },
-    canUndo: () => undoStackRef.current.length > 0,
-    canRedo: () => redoStackRef.current.length > 0,
+    canUndo: () => history.canUndo(),
+    canRedo: () => history.canRedo(),
     clear: () => {
-      // Save current state to undo stack before clearing
-      const currentState = captureState()
-      undoStackRef.current.push(currentState)
-      redoStackRef.current = [] // Clear redo stack
-
-      // Clear all layers and restore the white mask background
-      layers.forEach((layer) => {
-        layer.ctx.clearRect(0, 0, layer.canvas.width, layer.canvas.height)
-        // Restore the white mask pixels that define the drawable region
-        layer.ctx.putImageData(layer.mask, 0, 0)
-      })
-
-      // Notify parent of history change
-      onHistoryChange?.()
+      // Clear all layers back to the white mask background (undoable)
+      performAction({ type: "clear", time: performance.now() })
     },
     save: (outlineImage?: HTMLImageElement) => {
       if (layers.length === 0) return ""
 
-      // Create a temporary canvas to composite all layers
+      // Create a temporary canvas to composite all layers (at their scale)
+      const scale = layers[0].scale
       const tempCanvas = document.createElement("canvas")
-      tempCanvas.width = layers[0].canvas.width
-      tempCanvas.height = layers[0].canvas.height
+      tempCanvas.width = pageWidth * scale
+      tempCanvas.height = pageHeight * scale
       const tempCtx = tempCanvas.getContext("2d")
 
       if (!tempCtx) return ""
 
-      // Composite all layers onto the temp canvas
+      // Composite all layers onto the temp canvas, each at its place on the page
       layers.forEach((layer) => {
-        tempCtx.drawImage(layer.canvas, 0, 0)
+        tempCtx.drawImage(layer.canvas, layer.x * scale, layer.y * scale)
       })
 
+      // Export at the outline image's own resolution (the page is drawn at the
+      // working resolution), scaling the drawing once so regions meet without seams
+      const exportCanvas = document.createElement("canvas")
+      exportCanvas.width = outlineImage?.naturalWidth || pageWidth
+      exportCanvas.height = outlineImage?.naturalHeight || pageHeight
+      const exportCtx = exportCanvas.getContext("2d")
+
+      if (!exportCtx) return ""
+
+      exportCtx.imageSmoothingQuality = "high"
+      exportCtx.drawImage(tempCanvas, 0, 0, exportCanvas.width, exportCanvas.height)
+
       // If outline image is provided, draw it on top
       if (outlineImage) {
-        tempCtx.drawImage(outlineImage, 0, 0, tempCanvas.width, tempCanvas.height)
+        exportCtx.drawImage(outlineImage, 0, 0, exportCanvas.width, exportCanvas.height)
       }
 
       // Convert to data URL (PNG format)
-      return tempCanvas.toDataURL("image/png")
+      return exportCanvas.toDataURL("image/png")
+    },
+    getDrawingLog: () => ({
+      version: 1,
+      width: pageWidth,
+      height: pageHeight,
+      // A copy, so later strokes don't change a log that was handed out
+      steps: logRef.current.map((step) => [...step]),
+    }),
+    loadDrawingLog: (log: DrawingLog) => {
+      // A loaded drawing starts a fresh history
+      logRef.current = log.steps.map((step) => [...step])
+      redoLogRef.current = []
+      history.reset()
+
+      renderDrawingLog(layers, logRef.current)
+      invalidate()
+      onHistoryChange?.()
+    },
+    clearRegion: (layerId: number) => {
+      performAction({ type: "clearRegion", layerId, time: performance.now() })
+    },
+    undoRegion: (layerId: number) => {
+      if (getRegionActions(layerId, logRef.current.flat()).length === 0) return
+      performAction({ type: "undoRegion", layerId, time: performance.now() })
     },
+    canUndoRegion: (layerId: number) =>
+      getRegionActions(layerId, logRef.current.flat()).length > 0,
+    fillRegion: (layerId: number, color: string) => {
+      // Region fills cover the whole region, so they have no tap point
+      performAction({
+        type: "fill",
+        mode: "region",
+        layerId,
+        color,
+        x: 0,
+        y: 0,
+        time: performance.now(),
+      })
+    },
+    resetZoom: () => setView(IDENTITY_VIEW),
+    redraw: () => invalidate(),
   }))
 
+  useEffect(() => {
+    onZoomChange?.(isZoomed)
+  }, [isZoomed, onZoomChange])
+
   // Mount layer canvases into the DOM
   useEffect(() => {
     const container = containerRef.current
@@ -177,39 +398,131 @@ const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas({
       container.removeChild(container.firstChild)
     }
 
-    // Append each layer canvas to the container
-    layers.forEach((layer) => {
-      layer.canvas.style.position = "absolute"
-      layer.canvas.style.top = "0"
-      layer.canvas.style.left = "0"
-      layer.canvas.style.width = "100%"
-      layer.canvas.style.height = "100%"
-      layer.canvas.style.pointerEvents = "none"
-      container.appendChild(layer.canvas)
-    })
+    // The display canvas shows the layers (which stay off the DOM), the preview
+    // canvas above it the uncommitted stroke tail, and an off-DOM canvas holds the
+    // active layer's mask to clip the preview (all cover the whole page; the first
+    // two are sized to the layers' scale along with the compositor below)
+    const displayCanvas = document.createElement("canvas")
+    const previewCanvas = document.createElement("canvas")
+    const previewMaskCanvas = document.createElement("canvas")
+    previewMaskCanvas.width = pageWidth
+    previewMaskCanvas.height = pageHeight
+    displayCanvasRef.current = displayCanvas
+    previewCanvasRef.current = previewCanvas
+    previewMaskCanvasRef.current = previewMaskCanvas
+
+    for (const canvas of [displayCanvas, previewCanvas]) {
+      canvas.style.position = "absolute"
+      canvas.style.top = "0"
+      canvas.style.left = "0"
+      canvas.style.width = "100%"
+      canvas.style.height = "100%"
+      canvas.style.pointerEvents = "none"
+      container.appendChild(canvas)
+    }
 
-    // Initialize empty undo/redo stacks
-    // We'll capture state when drawing starts
-    undoStackRef.current = []
-    redoStackRef.current = []
+    // Start an empty drawing log and a fresh history to match
+    logRef.current = []
+    redoLogRef.current = []
+    history.reset()
+
+    // A new page starts fully zoomed out
+    setView(IDENTITY_VIEW)
 
     // Cleanup function to remove canvases when component unmounts or layers change
     return () => {
+      compositorRef.current?.dispose()
+      compositorRef.current = null
       while (container.firstChild) {
         container.removeChild(container.firstChild)
       }
     }
-  }, [layers])
+  }, [layers, pageWidth, pageHeight, history])
+
+  // Follow the display's resolution: the page's size on screen and the device pixel ratio
+  useEffect(() => {
+    const viewport = viewportRef.current
+    if (!viewport) return
+
+    const update = () => setRenderScale(getRenderScale(viewport.clientWidth, pageWidth))
+
+    // Resizing and rotating change the page's size on screen
+    const observer = new ResizeObserver(update)
+    observer.observe(viewport)
+
+    // Moving to a screen with another pixel ratio resizes nothing, so watch the ratio too
+    let media: MediaQueryList | null = null
+    const handleRatioChange = () => {
+      media?.removeEventListener("change", handleRatioChange)
+      media = window.matchMedia(`(resolution: ${window.devicePixelRatio}dppx)`)
+      media.addEventListener("change", handleRatioChange)
+      update()
+    }
+    handleRatioChange()
+
+    return () => {
+      observer.disconnect()
+      media?.removeEventListener("change", handleRatioChange)
+    }
+  }, [pageWidth])
+
+  // Render the layers at the render scale and composite them onto the display.
+  // A new scale re-renders the drawing from its log (once the stroke in progress
+  // is finished); the undo history's tiles no longer fit, so the steps drawn before
+  // it are undone and redone by replaying the log
+  useEffect(() => {
+    const displayCanvas = displayCanvasRef.current
+    const previewCanvas = previewCanvasRef.current
+    if (isDrawing || !displayCanvas || !previewCanvas || layers.length === 0) return
+    if (compositorRef.current && layers[0].scale === renderScale) return
+
+    if (layers[0].scale !== renderScale) {
+      history.dropTiles()
+      rescaleLayers(layers, renderScale)
+      renderDrawingLog(layers, logRef.current)
+    }
+
+    displayCanvas.width = previewCanvas.width = pageWidth * renderScale
+    displayCanvas.height = previewCanvas.height = pageHeight * renderScale
+
+    // Draws the whole page on the first frame
+    compositorRef.current?.dispose()
+    const compositor = createLayerCompositor(
+      displayCanvas,
+      layers,
+      renderScale,
+      DEBUG_PERFORMANCE
+        ? (ms, pixels) => {
+            performanceMetrics.current.compositeTime += ms
+            performanceMetrics.current.compositePixels += pixels
+            performanceMetrics.current.compositeCount++
+          }
+        : undefined
+    )
+    compositor.invalidate()
+    compositorRef.current = compositor
+    onRenderScaleChange?.(renderScale)
+  }, [
+    layers,
+    renderScale,
+    isDrawing,
+    pageWidth,
+    pageHeight,
+    history,
+    onHistoryChange,
+    onRenderScaleChange,
+  ])
 
   // Track global pointer position to fix edge gaps on fast entry
   useEffect(() => {
     const handleGlobalPointerMove = (event: PointerEvent) => {
-      if (layers.length === 0 || !containerRef.current) return
+      const container = containerRef.current
+      if (layers.length === 0 || !viewportRef.current || !container) return
 
       // Only track position when actively drawing (button is held down)
-      // AND when the pointer is over the canvas container
+      // AND when the pointer is over the visible part of the canvas
       if (event.buttons === 1) {
-        const rect = containerRef.current.getBoundingClientRect()
+        const rect = viewportRef.current.getBoundingClientRect()
         const isOverCanvas =
           event.clientX >= rect.left &&
           event.clientX <= rect.right &&
@@ -217,8 +530,8 @@ const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas({
           event.clientY <= rect.bottom
 
         if (isOverCanvas) {
-          // Convert global coordinates to canvas coordinates
-          const coords = getCanvasCoordinates(layers[0].canvas, event)
+          // Convert global coordinates to page coordinates
+          const coords = getPageCoordinates(container, pageWidth, pageHeight, event)
           lastGlobalPositionRef.current = coords
         }
       }
@@ -228,178 +541,416 @@ const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas({
     return () => {
       window.removeEventListener("pointermove", handleGlobalPointerMove)
     }
-  }, [layers])
+  }, [layers, pageWidth, pageHeight])
 
-  // Apply brush settings to a context
-  const applyBrushSettings = (ctx: CanvasRenderingContext2D) => {
-    // Use white for eraser, otherwise use selected color
-    const color = isEraser ? "#FFFFFF" : fillColor
+  // Ends the stroke session with the current settings (set once endStroke exists, below)
+  const endStrokeRef = useRef<() => void>(() => {})
 
-    ctx.strokeStyle = color
-    ctx.lineWidth = brushSize
-    ctx.lineJoin = "round"
-    ctx.lineCap = "round"
+  // Contacts can lift anywhere (even outside the canvas), so release them globally
+  // A stroke that left the canvas is still open, so lifting the drawing contact closes it
+  useEffect(() => {
+    const handleGlobalPointerUp = (event: PointerEvent) => {
+      const wasDrawing = arbiter.release(getContactKey("pointer", event.pointerId))
+      if (wasDrawing && hasStateCapturedRef.current) endStrokeRef.current()
+    }
 
-    // Apply shadow for soft brush (but not for eraser)
-    if (brushType === "soft" && !isEraser) {
-      ctx.shadowBlur = brushSize * 0.5
-      ctx.shadowColor = color
-    } else {
-      ctx.globalAlpha = 1.0
+    window.addEventListener("pointerup", handleGlobalPointerUp)
+    window.addEventListener("pointercancel", handleGlobalPointerUp)
+    return () => {
+      window.removeEventListener("pointerup", handleGlobalPointerUp)
+      window.removeEventListener("pointercancel", handleGlobalPointerUp)
+    }
+  }, [arbiter])
+
+  // The layer under a point, unless it is locked
+  const findTargetLayer = (x: number, y: number): DrawingLayer | null => {
+    const layer = findLayerAtPoint(layers, x, y, lookupTable)
+    return layer && !lockedLayerIds?.has(layer.id) ? layer : null
+  }
+
+  // The selected pattern, sized to a region (or the whole page when there is none)
+  const getPatternFill = (layer: DrawingLayer | null): PatternFill | undefined => {
+    if (!pattern || isEraser || layers.length === 0) return undefined
+
+    const bounds = layer
+      ? getLayerBounds(layer)
+      : { x: 0, y: 0, width: pageWidth, height: pageHeight }
+    return { type: pattern, secondaryColor, bounds }
+  }
+
+  // Current brush settings as a renderer style (patterns are sized to the target region)
+  const getBrushStyle = (layer: DrawingLayer | null): BrushStyle => ({
+    // The eraser's color only shows in its preview (white, like the blank page)
+    color: isEraser ? "#FFFFFF" : fillColor,
+    size: brushSize,
+    type: isEraser ? eraserType : brushType,
+    isEraser,
+    pattern: getPatternFill(layer),
+  })
+
+  // Find where every symmetric copy of a stroke starting at this point draws
+  const resolveSymmetryTargets = (point: StrokePoint): SymmetryTarget[] => {
+    const transforms = getSymmetryTransforms(symmetry, pageWidth, pageHeight)
+    return transforms.flatMap((transform, index): SymmetryTarget[] => {
+      if (!stayWithinLines) return [{ transform, layer: null }]
+
+      // The child's own stroke keeps its region; each copy looks up the region it lands in
+      // (copies landing on an outline have nowhere to draw and are dropped)
+      const copy = transform(point)
+      const layer =
+        index === 0
+          ? activeLayerRef.current
+          : findTargetLayer(copy.x, copy.y)
+      return layer ? [{ transform, layer }] : []
+    })
+  }
+
+  // Load the masks of the target regions, used to clip the stroke preview
+  const loadPreviewMask = (targets: SymmetryTarget[]) => {
+    const maskCanvas = previewMaskCanvasRef.current
+    const ctx = maskCanvas?.getContext("2d")
+    if (!maskCanvas || !ctx) return
+
+    const [first, ...rest] = Array.from(
+      new Set(targets.flatMap((target) => (target.layer ? [target.layer] : [])))
+    )
+    if (!first) return
+    // Masks only cover their layer, so clear the rest of the page first
+    ctx.clearRect(0, 0, maskCanvas.width, maskCanvas.height)
+    ctx.putImageData(first.mask, first.x, first.y)
+    if (rest.length === 0) return
+
+    // Masks are opaque inside their region, so drawing them over each other unions them
+    const scratch = document.createElement("canvas")
+    scratch.width = maskCanvas.width
+    scratch.height = maskCanvas.height
+    const scratchCtx = scratch.getContext("2d")
+    if (!scratchCtx) return
+    rest.forEach((layer) => {
+      const { x, y, width, height } = getLayerBounds(layer)
+      scratchCtx.putImageData(layer.mask, x, y)
+      ctx.drawImage(scratch, x, y, width, height, x, y, width, height)
+    })
+  }
+
+  // Snapshot the tiles under part of a stroke before it is drawn (and show them next frame)
+  const touchStrokeBounds = (stroke: StrokeAction, points: StrokePoint[]) => {
+    const rect = getStrokeBounds(points, stroke.style)
+    getActionLayers(layers, stroke).forEach((layer) => history.touch(layer, rect))
+    invalidate(rect)
+  }
+
+  // Start recording and drawing a stroke (and its symmetric copies) on the current targets
+  // All copies go into the same log step, so they undo together
+  const startStroke = (point: StrokePoint, startsWithDot: boolean) => {
+    // Region-locked drawing needs a layer to draw on
+    if (stayWithinLines && !activeLayerRef.current) return
+
+    const step = logRef.current[logRef.current.length - 1]
+    activeStrokesRef.current = symmetryTargetsRef.current.map(({ transform, layer }) => {
+      const start = transform(point)
+      const action: StrokeAction = {
+        type: "stroke",
+        mode: stayWithinLines ? "region" : "free",
+        layerId: layer?.id ?? null,
+        style: getBrushStyle(layer),
+        stabilization,
+        startsWithDot,
+        points: [start],
+        time: start.time,
+      }
+      step?.push(action)
+
+      const smoother = createStrokeSmoother(stabilization)
+      smoother.begin(start)
+      if (startsWithDot) {
+        touchStrokeBounds(action, [start])
+        drawStrokeOnTarget(layers, action, [start])
+      }
+      return { action, smoother, transform }
+    })
+  }
+
+  // Draw a smoothed polyline of a stroke onto the layers
+  const commitPath = ({ action }: ActiveStroke, path: StrokePoint[]) => {
+    if (path.length < 2) return
+    touchStrokeBounds(action, path)
+    drawStrokeOnTarget(layers, action, path)
+  }
+
+  // Record a point on every copy of the stroke and draw what their smoothers commit
+  const extendStroke = (point: StrokePoint) => {
+    activeStrokesRef.current.forEach((stroke) => {
+      const copy = stroke.transform(point)
+      stroke.action.points.push(copy)
+      commitPath(stroke, stroke.smoother.add(copy))
+    })
+  }
+
+  // Redraw the preview canvas with the strokes' uncommitted tails,
+  // extended by the predicted points
+  const updatePreview = (predicted: StrokePoint[]) => {
+    const previewCanvas = previewCanvasRef.current
+    const ctx = previewCanvas?.getContext("2d")
+    if (!previewCanvas || !ctx) return
+
+    ctx.clearRect(0, 0, previewCanvas.width, previewCanvas.height)
+    const strokes = activeStrokesRef.current
+    if (strokes.length === 0) return
+
+    // The preview has the layers' scale, so it is drawn in page coordinates too
+    const scale = previewCanvas.width / pageWidth
+    ctx.save()
+    ctx.setTransform(scale, 0, 0, scale, 0, 0)
+    strokes.forEach(({ action, smoother, transform }) => {
+      const path = smoother.tail(predicted.map(transform))
+      if (path.length >= 2) renderStrokePath(ctx, path, action.style)
+    })
+
+    // Clip to the target regions the same way the committed strokes will be
+    const maskCanvas = previewMaskCanvasRef.current
+    if (stayWithinLines && maskCanvas) {
+      ctx.globalAlpha = 1
       ctx.shadowBlur = 0
+      ctx.globalCompositeOperation = "destination-in"
+      ctx.imageSmoothingEnabled = false // Masks are scaled up with hard edges, like on the layers
+      ctx.drawImage(maskCanvas, 0, 0)
+    }
+    ctx.restore()
+  }
+
+  // Commit whatever the smoothers are still holding and clear the preview
+  const finishStroke = () => {
+    activeStrokesRef.current.forEach((stroke) => commitPath(stroke, stroke.smoother.end()))
+    activeStrokesRef.current = []
+    updatePreview([])
+  }
+
+  const cancelLongPress = () => {
+    if (longPressTimerRef.current !== null) {
+      window.clearTimeout(longPressTimerRef.current)
+      longPressTimerRef.current = null
     }
+    pressStartRef.current = null
   }
 
-  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+  // Take back the stroke being drawn, as if it never happened
+  const cancelStroke = () => {
+    cancelLongPress()
+
+    activeStrokesRef.current = []
+    symmetryTargetsRef.current = []
+    updatePreview([])
+    if (hasStateCapturedRef.current) {
+      history.cancel()
+      invalidate()
+      logRef.current.pop()
+    }
+
+    hasStateCapturedRef.current = false
+    activeLayerRef.current = null
+    lastPointRef.current = null
+    lastGlobalPositionRef.current = null
+    hasMovedRef.current = false
+    setIsDrawing(false)
+  }
+
+  // A held press is a gesture, not a stroke: take back its dot and report the region
+  const handleLongPress = (layer: DrawingLayer, coords: { x: number; y: number }) => {
+    longPressTimerRef.current = null
+    cancelStroke()
+
+    // Report the position within the visible (possibly zoomed) view
+    const viewport = viewportRef.current
+    const container = containerRef.current
+    if (!viewport || !container) return
+    const pageRect = container.getBoundingClientRect()
+    const viewRect = viewport.getBoundingClientRect()
+    onRegionLongPress?.(layer.id, {
+      x: (pageRect.left + (coords.x / pageWidth) * pageRect.width - viewRect.left) / viewRect.width,
+      y: (pageRect.top + (coords.y / pageHeight) * pageRect.height - viewRect.top) / viewRect.height,
+    })
+  }
+
+  // Fill the region under the point in one tap (bucket tool)
+  const handleBucketFill = (coords: { x: number; y: number }) => {
+    // The eraser only works as a brush; a white fill would paint over the page
+    if (isEraser) return
+    const layer = findTargetLayer(coords.x, coords.y)
+    if (!layer) return
+
+    // Region-locked fills color the whole region regardless of earlier strokes;
+    // free fills are a classic paint bucket on the connected area of matching color
+    performAction({
+      type: "fill",
+      mode: stayWithinLines ? "region" : "free",
+      layerId: layer.id,
+      color: fillColor,
+      pattern: getPatternFill(layer),
+      x: coords.x,
+      y: coords.y,
+      time: performance.now(),
+    })
+  }
+
+  // Place the selected sticker centered on the point (stamp tool)
+  const handleStamp = (coords: { x: number; y: number }) => {
+    if (isEraser) return
+    // Region-locked stamps clip to the region under the tap
+    const layer = stayWithinLines
+      ? findTargetLayer(coords.x, coords.y)
+      : null
+    if (stayWithinLines && !layer) return
+
+    const size = brushSize * STAMP_SIZE_SCALE
+    performAction(
+      {
+        type: "stamp",
+        mode: stayWithinLines ? "region" : "free",
+        layerId: layer?.id ?? null,
+        stampId,
+        color: fillColor,
+        x: coords.x,
+        y: coords.y,
+        size,
+        time: performance.now(),
+      },
+      getStampBounds(coords.x, coords.y, size)
+    )
+  }
+
+  const handlePointerDown = (
+    event: React.PointerEvent<HTMLDivElement>,
+    key: ContactKey = getContactKey("pointer", event.pointerId)
+  ) => {
     event.preventDefault()
 
-    // Prevent double-firing from both pointer and touch events
-    const now = Date.now()
-    if (now - lastEventTimeRef.current < 50) return
-    lastEventTimeRef.current = now
+    // Fingers on screen belong to a pinch gesture until they all lift,
+    // but a pencil landing ends the gesture and draws
+    if (isGesturingRef.current) {
+      if (event.pointerType !== "pen") return
+      isGesturingRef.current = false
+      pinchRef.current = null
+    }
+
+    // Only one contact draws; a pencil replaces a palm that landed first
+    // (the palm's step is cancelled before it commits, so it never costs redo)
+    const decision = arbiter.press(key, event.pointerType, pencilOnly)
+    if (decision === "ignore") return
+    if (decision === "takeover") cancelStroke()
 
     const container = containerRef.current
     if (!container || layers.length === 0) return
 
-    // Use first layer canvas for coordinate calculation
-    const coords = getCanvasCoordinates(layers[0].canvas, event)
+    const coords = getPageCoordinates(container, pageWidth, pageHeight, event)
+
+    if (tool === "bucket") {
+      handleBucketFill(coords)
+      return
+    }
 
-    let targetLayer: DrawingLayer | null = null
+    if (tool === "stamp") {
+      handleStamp(coords)
+      return
+    }
 
     if (stayWithinLines) {
       // Region-locked drawing: find the layer using O(1) lookup table
-      const layer = findLayerAtPoint(layers, coords.x, coords.y, lookupTable)
+      const layer = findTargetLayer(coords.x, coords.y)
       if (!layer) return
       activeLayerRef.current = layer
-      targetLayer = layer
     } else {
       // Free drawing: no layer restrictions
       activeLayerRef.current = null
     }
 
+    // Every symmetric copy resolves its own region; the preview is clipped to all of them
+    const point = createStrokePoint(coords, event, null)
+    symmetryTargetsRef.current = resolveSymmetryTargets(point)
+    if (stayWithinLines) loadPreviewMask(symmetryTargetsRef.current)
+
     // Capture state BEFORE starting to draw (only once per stroke session)
     if (!hasStateCapturedRef.current) {
-      const beforeState = captureState()
-      undoStackRef.current.push(beforeState)
-      redoStackRef.current = [] // Clear redo stack on new action
+      beginHistoryStep()
       hasStateCapturedRef.current = true
     }
 
     setIsDrawing(true)
-    lastPointRef.current = coords
+    lastPointRef.current = point
     hasMovedRef.current = false
 
     // Draw initial dot immediately to ensure quick taps are always visible
-    // Use requestAnimationFrame to not block the event handler
-    const color = isEraser ? "#FFFFFF" : fillColor
-    const currentLayer = targetLayer
-
-    requestAnimationFrame(() => {
-      if (stayWithinLines && currentLayer) {
-        // Region-locked: draw dot on target layer
-        drawStrokeWithClipping(
-          currentLayer.canvas,
-          currentLayer.ctx,
-          currentLayer.mask,
-          (ctx) => {
-            ctx.fillStyle = color
-            ctx.globalAlpha = 1.0
-
-            // Apply shadow for soft brush (but not for eraser)
-            if (brushType === "soft" && !isEraser) {
-              ctx.shadowBlur = brushSize * 0.5
-              ctx.shadowColor = color
-            } else {
-              ctx.shadowBlur = 0
-            }
-
-            ctx.beginPath()
-            ctx.arc(coords.x, coords.y, brushSize / 2, 0, Math.PI * 2)
-            ctx.fill()
-          }
-        )
-      } else if (!stayWithinLines) {
-        // Free drawing: draw dot on all layers
-        layers.forEach((layer) => {
-          layer.ctx.fillStyle = color
-          layer.ctx.globalAlpha = 1.0
-
-          // Apply shadow for soft brush (but not for eraser)
-          if (brushType === "soft" && !isEraser) {
-            layer.ctx.shadowBlur = brushSize * 0.5
-            layer.ctx.shadowColor = color
-          } else {
-            layer.ctx.shadowBlur = 0
-          }
-
-          layer.ctx.beginPath()
-          layer.ctx.arc(coords.x, coords.y, brushSize / 2, 0, Math.PI * 2)
-          layer.ctx.fill()
-        })
-      }
-    })
+    // (synchronously, so the log replays in the same order it was drawn)
+    startStroke(point, true)
+
+    // Holding still on a region opens the region menu instead of drawing
+    const pressedLayer = activeLayerRef.current
+    if (stayWithinLines && pressedLayer && onRegionLongPress) {
+      cancelLongPress()
+      pressStartRef.current = coords
+      longPressTimerRef.current = window.setTimeout(
+        () => handleLongPress(pressedLayer, coords),
+        LONG_PRESS_MS
+      )
+    }
   }
 
-  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+  const handlePointerMove = (
+    event: React.PointerEvent<HTMLDivElement>,
+    key: ContactKey = getContactKey("pointer", event.pointerId)
+  ) => {
     const container = containerRef.current
-    if (!container || !isDrawing || layers.length === 0) return
+    if (!container || !isDrawing || !arbiter.isDrawing(key) || layers.length === 0) return
 
     event.preventDefault()
 
     const moveStart = DEBUG_PERFORMANCE ? performance.now() : 0
 
-    const coords = getCanvasCoordinates(layers[0].canvas, event)
-    const lastPoint = lastPointRef.current
+    const drawStart = DEBUG_PERFORMANCE ? performance.now() : 0
 
-    if (!lastPoint) {
-      lastPointRef.current = coords
-      return
-    }
+    // Feed every coalesced sample through the smoother (pencils report far more
+    // samples than the browser dispatches move events for)
+    for (const sample of getCoalescedPointerEvents(event)) {
+      const coords = getPageCoordinates(container, pageWidth, pageHeight, sample)
+      const lastPoint = lastPointRef.current
+      const point = createStrokePoint(coords, sample, lastPoint)
+      lastPointRef.current = point
 
-    // Calculate distance moved to detect actual movement vs. jitter
-    const dx = coords.x - lastPoint.x
-    const dy = coords.y - lastPoint.y
-    const distance = Math.sqrt(dx * dx + dy * dy)
-
-    // Only mark as moved if distance is significant
-    const significantMovement = distance > SIGNIFICANT_MOVEMENT_THRESHOLD
-
-    if (stayWithinLines && activeLayerRef.current) {
-      // Region-locked drawing with clipping (layer canvas updates automatically in DOM)
-      const drawStart = DEBUG_PERFORMANCE ? performance.now() : 0
-      const layer = activeLayerRef.current
-      drawStrokeWithClipping(
-        layer.canvas,
-        layer.ctx,
-        layer.mask,
-        (ctx) => {
-          applyBrushSettings(ctx)
-          ctx.beginPath()
-          ctx.moveTo(lastPoint.x, lastPoint.y)
-          ctx.lineTo(coords.x, coords.y)
-          ctx.stroke()
-        }
-      )
-      if (DEBUG_PERFORMANCE) {
-        const drawEnd = performance.now()
-        performanceMetrics.current.drawStrokeTime += drawEnd - drawStart
+      if (!lastPoint) {
+        startStroke(point, false)
+        continue
       }
-      if (significantMovement) hasMovedRef.current = true
-    } else if (!stayWithinLines) {
-      // Free drawing on all layers
-      const drawStart = DEBUG_PERFORMANCE ? performance.now() : 0
-      layers.forEach((layer) => {
-        applyBrushSettings(layer.ctx)
-        layer.ctx.beginPath()
-        layer.ctx.moveTo(lastPoint.x, lastPoint.y)
-        layer.ctx.lineTo(coords.x, coords.y)
-        layer.ctx.stroke()
-      })
-      if (DEBUG_PERFORMANCE) {
-        const drawEnd = performance.now()
-        performanceMetrics.current.drawStrokeTime += drawEnd - drawStart
+
+      // Only mark as moved if distance is significant (actual movement vs. jitter)
+      const distance = Math.hypot(point.x - lastPoint.x, point.y - lastPoint.y)
+      if (distance > SIGNIFICANT_MOVEMENT_THRESHOLD) hasMovedRef.current = true
+
+      // Moving away from the press point makes it a stroke, not a long-press
+      const pressStart = pressStartRef.current
+      if (
+        pressStart &&
+        Math.hypot(point.x - pressStart.x, point.y - pressStart.y) > LONG_PRESS_TOLERANCE_PX
+      ) {
+        cancelLongPress()
       }
-      if (significantMovement) hasMovedRef.current = true
+
+      extendStroke(point)
+    }
+
+    // Preview the tail up to the pen, extended by the browser's predicted samples
+    if (activeStrokesRef.current.length > 0 && lastPointRef.current) {
+      let previous = lastPointRef.current
+      const predicted = getPredictedPointerEvents(event).map((sample) => {
+        const coords = getPageCoordinates(container, pageWidth, pageHeight, sample)
+        previous = createStrokePoint(coords, sample, previous)
+        return previous
+      })
+      updatePreview(predicted)
+    }
+
+    if (DEBUG_PERFORMANCE) {
+      const drawEnd = performance.now()
+      performanceMetrics.current.drawStrokeTime += drawEnd - drawStart
     }
 
     // Performance tracking (only when DEBUG_PERFORMANCE is enabled)
@@ -422,11 +973,22 @@ const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas({
           metrics.sampleCount > 0
             ? metrics.drawStrokeTime / metrics.sampleCount
             : 0
+        // Compositing runs once per animation frame, not per move event
+        const avgComposite =
+          metrics.compositeCount > 0
+            ? metrics.compositeTime / metrics.compositeCount
+            : 0
+        const avgCompositePixels =
+          metrics.compositeCount > 0
+            ? metrics.compositePixels / metrics.compositeCount
+            : 0
 
         console.log(
           `[PERF] FPS: ${fps} | Avg Total: ${avgTotal.toFixed(
             2
-          )}ms | Avg Draw: ${avgDraw.toFixed(2)}ms`
+          )}ms | Avg Draw: ${avgDraw.toFixed(2)}ms | Avg Composite: ${avgComposite.toFixed(
+            2
+          )}ms (${Math.round(avgCompositePixels)} px, ${metrics.compositeCount} frames)`
         )
 
         // Reset counters
@@ -436,50 +998,90 @@ const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas({
           drawStrokeTime: 0,
           totalMoveTime: 0,
           sampleCount: 0,
+          compositeTime: 0,
+          compositePixels: 0,
+          compositeCount: 0,
         }
       }
     }
+  }
 
-    lastPointRef.current = coords
+  const handlePointerUp = (
+    event: React.PointerEvent<HTMLDivElement>,
+    key: ContactKey = getContactKey("pointer", event.pointerId)
+  ) => {
+    // Resting palms and other ignored contacts lifting don't end the stroke
+    if (arbiter.isDrawing(key)) endStroke()
   }
 
-  const handlePointerUp = () => {
-    // Notify parent of history change if we were drawing
-    if (isDrawing) {
+  const endStroke = () => {
+    cancelLongPress()
+
+    // Commit the smoothed tail before the active layer is released
+    finishStroke()
+
+    // Close the undo entry for this stroke session
+    if (hasStateCapturedRef.current) {
+      // Report the regions a flat-colored stroke painted (each symmetric copy's too)
+      // while its entry is still open, so what the parent does with them undoes with it
+      if (stayWithinLines && !isEraser && !pattern) {
+        const layerIds = new Set(
+          symmetryTargetsRef.current.flatMap(({ layer }) => (layer ? [layer.id] : []))
+        )
+        isReportingStrokeRef.current = true
+        try {
+          layerIds.forEach((layerId) => onRegionStroke?.(layerId, fillColor))
+        } finally {
+          isReportingStrokeRef.current = false
+        }
+      }
+
+      commitHistoryStep()
+      // Notify parent once the entry counts (canUndo only sees committed entries)
       onHistoryChange?.()
     }
 
     setIsDrawing(false)
     activeLayerRef.current = null
+    symmetryTargetsRef.current = []
     hasStateCapturedRef.current = false
     lastPointRef.current = null
     lastGlobalPositionRef.current = null
     hasMovedRef.current = false
   }
 
+  useEffect(() => {
+    endStrokeRef.current = endStroke
+  })
+
   const handlePointerUpPreserveLayer = () => {
     // Notify parent of history change if we were drawing
     if (isDrawing) {
       onHistoryChange?.()
     }
 
+    cancelLongPress()
+    finishStroke()
+
     setIsDrawing(false)
-    // Don't clear activeLayerRef - preserve it for re-entry
+    // Don't clear activeLayerRef (or the symmetry targets) - preserve them for re-entry
     lastPointRef.current = null
     lastGlobalPositionRef.current = null
     hasMovedRef.current = false
   }
 
   const handlePointerLeave = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!arbiter.isDrawing(getContactKey("pointer", event.pointerId))) return
+
     const container = containerRef.current
     if (!container || !isDrawing || layers.length === 0) {
       // Not drawing, just treat it as pointer up
-      handlePointerUp()
+      endStroke()
       return
     }
 
     // Get exit coordinates
-    const exitCoords = getCanvasCoordinates(layers[0].canvas, event)
+    const exitCoords = getPageCoordinates(container, pageWidth, pageHeight, event)
     const lastPoint = lastPointRef.current
 
     // Draw final stroke to exit point if we have a last point
@@ -487,31 +1089,8 @@ const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas({
       lastPoint &&
       (lastPoint.x !== exitCoords.x || lastPoint.y !== exitCoords.y)
     ) {
-      if (stayWithinLines && activeLayerRef.current) {
-        // Region-locked drawing with clipping (canvas updates automatically in DOM)
-        const layer = activeLayerRef.current
-        drawStrokeWithClipping(
-          layer.canvas,
-          layer.ctx,
-          layer.mask,
-          (ctx) => {
-            applyBrushSettings(ctx)
-            ctx.beginPath()
-            ctx.moveTo(lastPoint.x, lastPoint.y)
-            ctx.lineTo(exitCoords.x, exitCoords.y)
-            ctx.stroke()
-          }
-        )
-      } else if (!stayWithinLines) {
-        // Free drawing on all layers
-        layers.forEach((layer) => {
-          applyBrushSettings(layer.ctx)
-          layer.ctx.beginPath()
-          layer.ctx.moveTo(lastPoint.x, lastPoint.y)
-          layer.ctx.lineTo(exitCoords.x, exitCoords.y)
-          layer.ctx.stroke()
-        })
-      }
+      const exitPoint = createStrokePoint(exitCoords, event, lastPoint)
+      extendStroke(exitPoint)
     }
 
     // Stop drawing but preserve the active layer for re-entry
@@ -523,113 +1102,182 @@ const Canvas = forwardRef<CanvasRef, CanvasProps>(function Canvas({
     if (!container || layers.length === 0) return
 
     // Check if pointer button is still pressed (buttons === 1 means primary button down)
-    if (event.buttons === 1) {
-      const coords = getCanvasCoordinates(layers[0].canvas, event)
+    if (event.buttons === 1 && !isGesturingRef.current) {
+      // A stroke that started outside the canvas is arbitrated like any other contact
+      const decision = arbiter.press(
+        getContactKey("pointer", event.pointerId),
+        event.pointerType,
+        pencilOnly
+      )
+      if (decision === "ignore") return
+      if (decision === "takeover") cancelStroke()
+
+      const coords = getPageCoordinates(container, pageWidth, pageHeight, event)
+      const point = createStrokePoint(coords, event, null)
 
       // If we have an active layer from before leaving, continue using it
       // Don't find a new layer - this preserves the original drawing region
-      const currentLayer = activeLayerRef.current
+      // Resume drawing only if we have a layer to draw on
+      if (activeLayerRef.current || !stayWithinLines) {
+        // A stroke started outside the canvas still needs its undo step
+        if (!hasStateCapturedRef.current) {
+          beginHistoryStep()
+          hasStateCapturedRef.current = true
+        }
 
-      if (stayWithinLines && currentLayer) {
-        // Continue drawing on the same layer we started with
-        const globalPos = lastGlobalPositionRef.current
-        if (
-          globalPos &&
-          (globalPos.x !== coords.x || globalPos.y !== coords.y)
-        ) {
-          drawStrokeWithClipping(currentLayer.canvas, currentLayer.ctx, currentLayer.mask, (ctx) => {
-            applyBrushSettings(ctx)
-            ctx.beginPath()
-            ctx.moveTo(globalPos.x, globalPos.y)
-            ctx.lineTo(coords.x, coords.y)
-            ctx.stroke()
-          })
+        // A free stroke started outside the canvas resolves its copies on entry
+        if (symmetryTargetsRef.current.length === 0) {
+          symmetryTargetsRef.current = resolveSymmetryTargets(point)
         }
-      } else if (!stayWithinLines) {
-        // Free drawing: draw on all layers
+
+        // Draw from the last global position to the entry point
         const globalPos = lastGlobalPositionRef.current
-        if (
-          globalPos &&
-          (globalPos.x !== coords.x || globalPos.y !== coords.y)
-        ) {
-          layers.forEach((layer) => {
-            applyBrushSettings(layer.ctx)
-            layer.ctx.beginPath()
-            layer.ctx.moveTo(globalPos.x, globalPos.y)
-            layer.ctx.lineTo(coords.x, coords.y)
-            layer.ctx.stroke()
-          })
-        }
-      }
+        const hasGap =
+          globalPos !== null && (globalPos.x !== coords.x || globalPos.y !== coords.y)
 
-      // Resume drawing only if we have a layer to draw on
-      if (activeLayerRef.current || !stayWithinLines) {
         setIsDrawing(true)
-        lastPointRef.current = coords
+        lastPointRef.current = point
+
+        if (globalPos && hasGap) {
+          startStroke({ ...point, x: globalPos.x, y: globalPos.y }, false)
+          extendStroke(point)
+        } else {
+          startStroke(point, false)
+        }
       }
     }
   }
 
   // Add touch event handlers as fallback for Safari's pointer event filtering
+  // (touches already reported by pointer events are left to those handlers)
+  const toPointerEvent = (event: React.TouchEvent<HTMLDivElement>, touch: React.Touch) =>
+    ({
+      preventDefault: () => event.preventDefault(),
+      clientX: touch.clientX,
+      clientY: touch.clientY,
+      ...getTouchPointerFields(touch),
+      timeStamp: event.timeStamp,
+      buttons: 1,
+      isPrimary: true,
+    }) as React.PointerEvent<HTMLDivElement>
+
   const handleTouchStart = (event: React.TouchEvent<HTMLDivElement>) => {
-    // Convert touch to pointer-like event
-    if (event.touches.length > 0) {
-      const touch = event.touches[0]
-      const syntheticEvent = {
-        preventDefault: () => event.preventDefault(),
-        clientX: touch.clientX,
-        clientY: touch.clientY,
-        pointerType: 'pen',
-        pressure: 0.5,
-        buttons: 1,
-        isPrimary: true,
-      } as React.PointerEvent<HTMLDivElement>
-
-      handlePointerDown(syntheticEvent)
+    // Two fingers turn the touch into a pinch: drop the first finger's stroke, whose
+    // undo step never commits, so redo survives the zoom
+    // (fingers never pinch while a pencil is down - they're a resting hand)
+    const fingers = Array.from(event.touches).filter(
+      (touch) => getTouchPointerFields(touch).pointerType === "touch"
+    )
+    if (fingers.length >= 2 && !arbiter.isPenDown()) {
+      const viewport = viewportRef.current
+      if (!viewport) return
+
+      event.preventDefault()
+      if (!isGesturingRef.current) {
+        cancelStroke()
+        arbiter.yieldDrawing()
+      }
+      isGesturingRef.current = true
+      pinchRef.current = beginPinch(
+        view,
+        fingers[0],
+        fingers[1],
+        viewport.getBoundingClientRect()
+      )
+      return
     }
+
+    if (isGesturingRef.current || arbiter.hasPointerTouches()) return
+
+    // Convert each new touch to a pointer-like event
+    Array.from(event.changedTouches).forEach((touch) =>
+      handlePointerDown(
+        toPointerEvent(event, touch),
+        getContactKey("touch", touch.identifier)
+      )
+    )
   }
 
   const handleTouchMove = (event: React.TouchEvent<HTMLDivElement>) => {
-    if (event.touches.length > 0) {
-      const touch = event.touches[0]
-      const syntheticEvent = {
-        preventDefault: () => event.preventDefault(),
-        clientX: touch.clientX,
-        clientY: touch.clientY,
-        pointerType: 'pen',
-        pressure: 0.5,
-        buttons: 1,
-      } as React.PointerEvent<HTMLDivElement>
-
-      handlePointerMove(syntheticEvent)
+    if (isGesturingRef.current) {
+      event.preventDefault()
+
+      const pinch = pinchRef.current
+      const viewport = viewportRef.current
+      const fingers = Array.from(event.touches).filter(
+        (touch) => getTouchPointerFields(touch).pointerType === "touch"
+      )
+      if (pinch && viewport && fingers.length >= 2) {
+        setView(
+          updatePinch(pinch, fingers[0], fingers[1], viewport.getBoundingClientRect())
+        )
+      }
+      return
+    }
+
+    // Only the touch that owns the stroke moves it
+    const touch = Array.from(event.changedTouches).find((changed) =>
+      arbiter.isDrawing(getContactKey("touch", changed.identifier))
+    )
+    if (touch) {
+      handlePointerMove(
+        toPointerEvent(event, touch),
+        getContactKey("touch", touch.identifier)
+      )
     }
   }
 
   const handleTouchEnd = (event: React.TouchEvent<HTMLDivElement>) => {
     event.preventDefault()
-    handlePointerUp()
+
+    const releasedStroke = Array.from(event.changedTouches)
+      .map((touch) => arbiter.release(getContactKey("touch", touch.identifier)))
+      .some(Boolean)
+
+    // Fingers left over from a pinch don't draw until they have all lifted
+    if (isGesturingRef.current) {
+      if (event.touches.length < 2) pinchRef.current = null
+      if (event.touches.length === 0) isGesturingRef.current = false
+      return
+    }
+
+    if (releasedStroke) endStroke()
   }
 
   return (
-    <>
+    <div
+      ref={viewportRef}
+      className="relative overflow-hidden"
+      style={{ aspectRatio: `${pageWidth} / ${pageHeight}` }}
+    >
+      {/* Zoomed and panned view - the layers and overlays move together */}
       <div
-        ref={containerRef}
-        className="aspect-square"
-        style={{ touchAction: 'none' }}
-        onPointerDown={handlePointerDown}
-        onPointerMove={handlePointerMove}
-        onPointerUp={handlePointerUp}
-        onPointerCancel={handlePointerUp}
-        onPointerLeave={handlePointerLeave}
-        onPointerEnter={handlePointerEnter}
-        onTouchStart={handleTouchStart}
-        onTouchMove={handleTouchMove}
-        onTouchEnd={handleTouchEnd}
-        onTouchCancel={handleTouchEnd}
+        className="relative"
+        style={{
+          transform: `translate(${view.x}px, ${view.y}px) scale(${view.scale})`,
+          transformOrigin: "0 0",
+        }}
       >
-        {/* Layer canvases are mounted here via useEffect */}
+        <div
+          ref={containerRef}
+          className="relative"
+          style={{ aspectRatio: `${pageWidth} / ${pageHeight}`, touchAction: 'none' }}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+          onPointerLeave={handlePointerLeave}
+          onPointerEnter={handlePointerEnter}
+          onTouchStart={handleTouchStart}
+          onTouchMove={handleTouchMove}
+          onTouchEnd={handleTouchEnd}
+          onTouchCancel={handleTouchEnd}
+        >
+          {/* Layer canvases are mounted here via useEffect */}
+        </div>
+        {children}
       </div>
-    </>
+    </div>
   )
 })
 
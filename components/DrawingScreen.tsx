@@ -1,34 +1,86 @@
 "use client"
 
-import { useState, useMemo, useRef } from "react"
+import { useState, useMemo, useRef, useEffect, useCallback } from "react"
 import Canvas, { type CanvasRef } from "@/components/Canvas"
 import OutlineOverlay from "@/components/OutlineOverlay"
+import ReplayControls from "@/components/ReplayControls"
+import RegionMenu from "@/components/RegionMenu"
 import ColorPicker from "@/components/ColorPicker"
+import PatternPicker from "@/components/PatternPicker"
+import NumberPalette from "@/components/NumberPalette"
+import NumberOverlay from "@/components/NumberOverlay"
+import BridgeOverlay from "@/components/BridgeOverlay"
 import BrushSettings, {
+  type Tool,
   type BrushType,
   type BrushSize,
   getBrushSizePixels,
 } from "@/components/BrushSettings"
 import { ProcessedImageData } from "@/lib/processImage"
-import { generateLayers, createLayerLookupTable } from "@/lib/layerGeneration"
-import { ArrowBigLeftIcon, Undo2Icon, Redo2Icon, Trash2Icon, DownloadIcon } from "lucide-react"
+import { generateLayers, getLayerLookupTable } from "@/lib/layerGeneration"
+import type { DrawingStep } from "@/lib/drawingLog"
+import { DEFAULT_STAMP_ID, loadStampImages } from "@/lib/stamps"
+import type { PatternType } from "@/lib/patterns"
+import type { Symmetry } from "@/lib/symmetry"
+import type { EraserType } from "@/lib/strokeRenderer"
+import {
+  createColorByNumberPage,
+  getCompletedRegions,
+  isCorrectColor,
+  type ColorByNumberDefinition,
+  type ColorByNumberPage,
+} from "@/lib/colorByNumber"
+import {
+  ArrowBigLeftIcon,
+  Undo2Icon,
+  Redo2Icon,
+  Trash2Icon,
+  DownloadIcon,
+  FilmIcon,
+  HashIcon,
+  ZoomOutIcon,
+} from "lucide-react"
 import { Button } from "./ui/button"
-import { APP_BACKGROUND_GRADIENT } from "@/lib/constants"
+import { APP_BACKGROUND_GRADIENT, KALEIDOSCOPE_SEGMENTS } from "@/lib/constants"
 
-// Fixed canvas dimensions (all images are 1000x1000)
-const CANVAS_SIZE = 1000
+// Gap closing debugging flag - set to true to show where outline gaps were bridged
+const DEBUG_GAP_BRIDGES = false
+
+/**
+ * The finished color-by-number regions of the drawing on a canvas
+ * (read from the drawing log, so undoing a region's fill unlocks it again)
+ */
+function readCompletedRegions(
+  page: ColorByNumberPage | null,
+  canvas: CanvasRef | null
+): ReadonlySet<number> {
+  if (!page || !canvas) return new Set()
+  return getCompletedRegions(page, canvas.getDrawingLog().steps.flat())
+}
 
 interface DrawingScreenProps {
   data: ProcessedImageData
+  colorByNumber?: ColorByNumberDefinition // Numbered automatically when missing
   onBack: () => void
 }
 
-export default function DrawingScreen({ data, onBack }: DrawingScreenProps) {
+export default function DrawingScreen({ data, colorByNumber, onBack }: DrawingScreenProps) {
+  const [tool, setTool] = useState<Tool>("brush")
+  const [stampId, setStampId] = useState(DEFAULT_STAMP_ID)
   const [fillColor, setFillColor] = useState("#FF0000")
+  // The previous color becomes the second color of patterns and gradients
+  const [secondaryColor, setSecondaryColor] = useState("#FFFFFF")
+  const [pattern, setPattern] = useState<PatternType | null>(null)
   const [brushSize, setBrushSize] = useState<BrushSize>("medium")
   const [brushType, setBrushType] = useState<BrushType>("solid")
   const [isEraser, setIsEraser] = useState(false)
+  const [eraserType, setEraserType] = useState<EraserType>("solid")
+  const [symmetry, setSymmetry] = useState<Symmetry>({
+    mode: "none",
+    segments: KALEIDOSCOPE_SEGMENTS[0],
+  })
   const [stayWithinLines, setStayWithinLines] = useState(true)
+  const [pencilOnly, setPencilOnly] = useState(false)
   const { regionMap, outlineImage } = data
 
   // Generate drawable layers from region map (memoized)
@@ -36,10 +88,14 @@ export default function DrawingScreen({ data, onBack }: DrawingScreenProps) {
     return generateLayers(regionMap)
   }, [regionMap])
 
-  // Create O(1) lookup table for fast layer-at-point queries (memoized)
-  const lookupTable = useMemo(() => {
-    return createLayerLookupTable(layers, CANVAS_SIZE, CANVAS_SIZE)
-  }, [layers])
+  // O(1) lookup table for fast layer-at-point queries (built during region detection)
+  const lookupTable = useMemo(() => getLayerLookupTable(regionMap), [regionMap])
+  const { width: pageWidth, height: pageHeight } = regionMap
+
+  // Preload the line-art stickers so image stamps draw on the first tap
+  useEffect(() => {
+    loadStampImages()
+  }, [])
 
   // Ref to access Canvas undo/redo methods
   const canvasRef = useRef<CanvasRef>(null)
@@ -48,8 +104,39 @@ export default function DrawingScreen({ data, onBack }: DrawingScreenProps) {
   const [canUndo, setCanUndo] = useState(false)
   const [canRedo, setCanRedo] = useState(false)
 
+  // Drawing log being replayed (null when not in replay mode)
+  const [replaySteps, setReplaySteps] = useState<DrawingStep[] | null>(null)
+  const isReplaying = replaySteps !== null
+
+  // Whether the canvas is pinch-zoomed in (shows the reset zoom button)
+  const [isZoomed, setIsZoomed] = useState(false)
+
+  // Canvas pixels per page pixel the layers render at (the outline matches it)
+  const [renderScale, setRenderScale] = useState(1)
+
+  // Color-by-number game: numbered regions lock once filled with their color
+  const [isColorByNumber, setIsColorByNumber] = useState(false)
+  const colorByNumberPage = useMemo(
+    () => (isColorByNumber ? createColorByNumberPage(regionMap, colorByNumber) : null),
+    [isColorByNumber, regionMap, colorByNumber]
+  )
+  const [completedRegions, setCompletedRegions] = useState<ReadonlySet<number>>(new Set())
+
+  // Region menu opened by pressing and holding a region
+  const [regionMenu, setRegionMenu] = useState<{
+    layerId: number
+    position: { x: number; y: number }
+    canUndo: boolean
+  } | null>(null)
+
   // Handlers that call Canvas methods
   // Note: Button states are updated via onHistoryChange callback
+  const handleColorChange = (color: string) => {
+    if (color === fillColor) return
+    setSecondaryColor(fillColor)
+    setFillColor(color)
+  }
+
   const handleUndo = () => {
     canvasRef.current?.undo()
   }
@@ -62,6 +149,41 @@ export default function DrawingScreen({ data, onBack }: DrawingScreenProps) {
     canvasRef.current?.clear()
   }
 
+  const handleRegionLongPress = (layerId: number, position: { x: number; y: number }) => {
+    setRegionMenu({
+      layerId,
+      position,
+      canUndo: canvasRef.current?.canUndoRegion(layerId) ?? false,
+    })
+  }
+
+  const handleClearRegion = () => {
+    if (regionMenu) canvasRef.current?.clearRegion(regionMenu.layerId)
+    setRegionMenu(null)
+  }
+
+  const handleUndoRegion = () => {
+    if (regionMenu) canvasRef.current?.undoRegion(regionMenu.layerId)
+    setRegionMenu(null)
+  }
+
+  // A stroke in the right color finishes the region (filling any gaps it left, in the stroke's undo step)
+  const handleRegionStroke = (layerId: number, color: string) => {
+    if (colorByNumberPage && isCorrectColor(colorByNumberPage, layerId, color)) {
+      canvasRef.current?.fillRegion(layerId, color)
+    }
+  }
+
+  const handleReplay = () => {
+    const log = canvasRef.current?.getDrawingLog()
+    if (!log || log.steps.length === 0) return
+    setReplaySteps(log.steps)
+  }
+
+  // Replay draws on the layers directly, so the canvas has to be told to show them
+  // (stable, since replay restarts when it changes)
+  const handleReplayRender = useCallback(() => canvasRef.current?.redraw(), [])
+
   const handleSave = () => {
     if (!canvasRef.current) return
 
@@ -81,8 +203,14 @@ export default function DrawingScreen({ data, onBack }: DrawingScreenProps) {
   const handleHistoryChange = () => {
     setCanUndo(canvasRef.current?.canUndo() ?? false)
     setCanRedo(canvasRef.current?.canRedo() ?? false)
+    setCompletedRegions(readCompletedRegions(colorByNumberPage, canvasRef.current))
   }
 
+  // Starting the game picks up regions that were already filled correctly
+  useEffect(() => {
+    setCompletedRegions(readCompletedRegions(colorByNumberPage, canvasRef.current))
+  }, [colorByNumberPage])
+
   return (
     <div className={`flex portrait:flex-col landscape:flex-row gap-4 h-full w-full touch-none landscape:justify-between p-4 ${APP_BACKGROUND_GRADIENT}`}>
       {/* Back button and undo/redo/clear/save - separate column in landscape, in row in portrait */}
@@ -97,7 +225,7 @@ export default function DrawingScreen({ data, onBack }: DrawingScreenProps) {
         <Button
           variant="outline"
           onClick={handleUndo}
-          disabled={!canUndo}
+          disabled={!canUndo || isReplaying}
           className="size-20 rounded-xl border-4 border-gray-300 dark:border-gray-600 hover:border-blue-400 bg-white dark:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
         >
           <Undo2Icon className="size-8" />
@@ -105,7 +233,7 @@ export default function DrawingScreen({ data, onBack }: DrawingScreenProps) {
         <Button
           variant="outline"
           onClick={handleRedo}
-          disabled={!canRedo}
+          disabled={!canRedo || isReplaying}
           className="size-20 rounded-xl border-4 border-gray-300 dark:border-gray-600 hover:border-blue-400 bg-white dark:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
         >
           <Redo2Icon className="size-8" />
@@ -113,14 +241,36 @@ export default function DrawingScreen({ data, onBack }: DrawingScreenProps) {
         <Button
           variant="outline"
           onClick={handleClear}
-          className="size-20 rounded-xl border-4 border-gray-300 dark:border-gray-600 hover:border-red-400 bg-white dark:bg-gray-800"
+          disabled={isReplaying}
+          className="size-20 rounded-xl border-4 border-gray-300 dark:border-gray-600 hover:border-red-400 bg-white dark:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
         >
           <Trash2Icon className="size-8" />
         </Button>
+        <Button
+          variant="outline"
+          onClick={handleReplay}
+          disabled={isReplaying}
+          className="size-20 rounded-xl border-4 border-gray-300 dark:border-gray-600 hover:border-blue-400 bg-white dark:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <FilmIcon className="size-8" />
+        </Button>
+        <Button
+          variant="outline"
+          onClick={() => setIsColorByNumber(!isColorByNumber)}
+          disabled={isReplaying}
+          className={`size-20 rounded-xl border-4 disabled:opacity-40 disabled:cursor-not-allowed ${
+            isColorByNumber
+              ? "bg-blue-500 border-blue-600 text-white hover:bg-blue-500 hover:text-white"
+              : "border-gray-300 dark:border-gray-600 hover:border-blue-400 bg-white dark:bg-gray-800"
+          }`}
+        >
+          <HashIcon className="size-8" />
+        </Button>
         <Button
           variant="outline"
           onClick={handleSave}
-          className="size-20 rounded-xl border-4 border-gray-300 dark:border-gray-600 hover:border-green-400 bg-white dark:bg-gray-800"
+          disabled={isReplaying}
+          className="size-20 rounded-xl border-4 border-gray-300 dark:border-gray-600 hover:border-green-400 bg-white dark:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
         >
           <DownloadIcon className="size-8" />
         </Button>
@@ -139,7 +289,7 @@ export default function DrawingScreen({ data, onBack }: DrawingScreenProps) {
           <Button
             variant="outline"
             onClick={handleUndo}
-            disabled={!canUndo}
+            disabled={!canUndo || isReplaying}
             className="flex-shrink-0 size-20 rounded-xl border-4 border-gray-300 dark:border-gray-600 hover:border-blue-400 bg-white dark:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
           >
             <Undo2Icon className="size-8" />
@@ -147,7 +297,7 @@ export default function DrawingScreen({ data, onBack }: DrawingScreenProps) {
           <Button
             variant="outline"
             onClick={handleRedo}
-            disabled={!canRedo}
+            disabled={!canRedo || isReplaying}
             className="flex-shrink-0 size-20 rounded-xl border-4 border-gray-300 dark:border-gray-600 hover:border-blue-400 bg-white dark:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
           >
             <Redo2Icon className="size-8" />
@@ -155,67 +305,193 @@ export default function DrawingScreen({ data, onBack }: DrawingScreenProps) {
           <Button
             variant="outline"
             onClick={handleClear}
-            className="flex-shrink-0 size-20 rounded-xl border-4 border-gray-300 dark:border-gray-600 hover:border-red-400 bg-white dark:bg-gray-800"
+            disabled={isReplaying}
+            className="flex-shrink-0 size-20 rounded-xl border-4 border-gray-300 dark:border-gray-600 hover:border-red-400 bg-white dark:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
           >
             <Trash2Icon className="size-8" />
           </Button>
+          <Button
+            variant="outline"
+            onClick={handleReplay}
+            disabled={isReplaying}
+            className="flex-shrink-0 size-20 rounded-xl border-4 border-gray-300 dark:border-gray-600 hover:border-blue-400 bg-white dark:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <FilmIcon className="size-8" />
+          </Button>
+          <Button
+            variant="outline"
+            onClick={() => setIsColorByNumber(!isColorByNumber)}
+            disabled={isReplaying}
+            className={`flex-shrink-0 size-20 rounded-xl border-4 disabled:opacity-40 disabled:cursor-not-allowed ${
+              isColorByNumber
+                ? "bg-blue-500 border-blue-600 text-white hover:bg-blue-500 hover:text-white"
+                : "border-gray-300 dark:border-gray-600 hover:border-blue-400 bg-white dark:bg-gray-800"
+            }`}
+          >
+            <HashIcon className="size-8" />
+          </Button>
           <Button
             variant="outline"
             onClick={handleSave}
-            className="flex-shrink-0 size-20 rounded-xl border-4 border-gray-300 dark:border-gray-600 hover:border-green-400 bg-white dark:bg-gray-800"
+            disabled={isReplaying}
+            className="flex-shrink-0 size-20 rounded-xl border-4 border-gray-300 dark:border-gray-600 hover:border-green-400 bg-white dark:bg-gray-800 disabled:opacity-40 disabled:cursor-not-allowed"
           >
             <DownloadIcon className="size-8" />
           </Button>
         </div>
         <BrushSettings
+          tool={tool}
+          onToolChange={setTool}
+          stampId={stampId}
+          onStampChange={setStampId}
           size={brushSize}
           onSizeChange={setBrushSize}
           brushType={brushType}
           onBrushTypeChange={setBrushType}
           isEraser={isEraser}
           onEraserChange={setIsEraser}
+          eraserType={eraserType}
+          onEraserTypeChange={setEraserType}
+          symmetry={symmetry}
+          onSymmetryChange={setSymmetry}
           stayWithinLines={stayWithinLines}
           onStayWithinLinesChange={setStayWithinLines}
+          pencilOnly={pencilOnly}
+          onPencilOnlyChange={setPencilOnly}
         />
       </div>
 
       {/* Brush settings column for landscape */}
       <div className="flex-shrink-0 portrait:hidden landscape:flex flex-col flex-wrap h-full gap-4">
         <BrushSettings
+          tool={tool}
+          onToolChange={setTool}
+          stampId={stampId}
+          onStampChange={setStampId}
           size={brushSize}
           onSizeChange={setBrushSize}
           brushType={brushType}
           onBrushTypeChange={setBrushType}
           isEraser={isEraser}
           onEraserChange={setIsEraser}
+          eraserType={eraserType}
+          onEraserTypeChange={setEraserType}
+          symmetry={symmetry}
+          onSymmetryChange={setSymmetry}
           stayWithinLines={stayWithinLines}
           onStayWithinLinesChange={setStayWithinLines}
+          pencilOnly={pencilOnly}
+          onPencilOnlyChange={setPencilOnly}
         />
       </div>
 
-      {/* Canvas (grows to fill available space) */}
-      <div className="aspect-square flex items-center justify-center overflow-hidden">
-        <div className="relative aspect-square portrait:w-full portrait:max-h-full landscape:h-full landscape:max-w-full border-4 border-gray-300 dark:border-gray-700 rounded-2xl overflow-hidden">
+      {/* Canvas (grows to fill available space, letterboxed to the page's aspect ratio) */}
+      <div className="flex-1 min-w-0 min-h-0 [container-type:size] flex items-center justify-center overflow-hidden">
+        <div
+          className="relative box-content border-4 border-gray-300 dark:border-gray-700 rounded-2xl overflow-hidden"
+          style={{
+            // As wide as the space allows, unless that would make it too tall
+            // (the sizes leave room for the 4px border on each side)
+            width: `min(100cqw - 8px, (100cqh - 8px) * ${pageWidth / pageHeight})`,
+            aspectRatio: `${pageWidth} / ${pageHeight}`,
+          }}
+        >
           <Canvas
             ref={canvasRef}
             layers={layers}
             lookupTable={lookupTable}
+            tool={tool}
             fillColor={fillColor}
+            secondaryColor={secondaryColor}
+            pattern={colorByNumberPage ? null : pattern}
+            stampId={stampId}
             brushSize={getBrushSizePixels(brushSize)}
             brushType={brushType}
             isEraser={isEraser}
-            stayWithinLines={stayWithinLines}
+            eraserType={eraserType}
+            stayWithinLines={stayWithinLines || isColorByNumber}
+            symmetry={symmetry}
+            pencilOnly={pencilOnly}
+            lockedLayerIds={colorByNumberPage ? completedRegions : undefined}
             onHistoryChange={handleHistoryChange}
-          />
-          {outlineImage && (
-            <OutlineOverlay outlineImage={outlineImage} size={CANVAS_SIZE} />
+            onRegionLongPress={handleRegionLongPress}
+            onZoomChange={setIsZoomed}
+            onRenderScaleChange={setRenderScale}
+            onRegionStroke={handleRegionStroke}
+          >
+            {outlineImage && (
+              <OutlineOverlay
+                outlineImage={outlineImage}
+                width={pageWidth * renderScale}
+                height={pageHeight * renderScale}
+              />
+            )}
+            {DEBUG_GAP_BRIDGES && regionMap.bridges && (
+              <BridgeOverlay bridges={regionMap.bridges} width={pageWidth} height={pageHeight} />
+            )}
+            {colorByNumberPage && (
+              <NumberOverlay
+                labels={colorByNumberPage.labels}
+                completedRegions={completedRegions}
+                width={pageWidth}
+                height={pageHeight}
+              />
+            )}
+          </Canvas>
+          {isZoomed && !isReplaying && (
+            <button
+              onClick={() => canvasRef.current?.resetZoom()}
+              className="absolute top-3 right-3 z-10 h-14 aspect-square rounded-xl border-4 flex items-center justify-center transition-all bg-white dark:bg-gray-800 border-gray-300 dark:border-gray-600 hover:border-blue-400"
+            >
+              <ZoomOutIcon className="text-gray-800 dark:text-gray-200" size={28} />
+            </button>
+          )}
+          {regionMenu && (
+            <RegionMenu
+              position={regionMenu.position}
+              canUndo={regionMenu.canUndo}
+              onClear={handleClearRegion}
+              onUndo={handleUndoRegion}
+              onClose={() => setRegionMenu(null)}
+            />
+          )}
+          {replaySteps && (
+            <ReplayControls
+              layers={layers}
+              steps={replaySteps}
+              onRender={handleReplayRender}
+              onClose={() => setReplaySteps(null)}
+            />
           )}
         </div>
       </div>
 
-      {/* Color picker - Right column in landscape, bottom row in portrait */}
-      <div className="flex-shrink-0 landscape:h-full">
-        <ColorPicker selectedColor={fillColor} onColorChange={setFillColor} />
+      {/* Pattern and color pickers - Right columns in landscape, bottom rows in portrait */}
+      {/* (the numbered colors replace both in color-by-number mode) */}
+      <div className="flex-shrink-0 landscape:h-full flex portrait:flex-col landscape:flex-row gap-4">
+        {colorByNumberPage ? (
+          <div className="landscape:h-full min-w-0">
+            <NumberPalette
+              palette={colorByNumberPage.palette}
+              selectedColor={fillColor}
+              onColorChange={handleColorChange}
+            />
+          </div>
+        ) : (
+          <>
+            <div className="flex-shrink-0">
+              <PatternPicker
+                selectedPattern={pattern}
+                onPatternChange={setPattern}
+                color={fillColor}
+                secondaryColor={secondaryColor}
+              />
+            </div>
+            <div className="landscape:h-full min-w-0">
+              <ColorPicker selectedColor={fillColor} onColorChange={handleColorChange} />
+            </div>
+          </>
+        )}
       </div>
     </div>
   )
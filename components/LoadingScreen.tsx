@@ -1,9 +1,27 @@
 import { Spinner } from "./ui/spinner"
 
-export default function LoadingScreen() {
+interface LoadingScreenProps {
+  progress?: number // 0-1, shows a progress bar when set
+}
+
+export default function LoadingScreen({ progress }: LoadingScreenProps) {
   return (
-    <div className="h-dvh flex items-center justify-center">
+    <div className="h-dvh flex flex-col gap-8 items-center justify-center">
       <Spinner className="size-36" />
+      {progress !== undefined && (
+        <div
+          role="progressbar"
+          aria-valuemin={0}
+          aria-valuemax={100}
+          aria-valuenow={Math.round(progress * 100)}
+          className="w-72 h-6 rounded-full border-4 border-gray-300 dark:border-gray-700 bg-white dark:bg-gray-800 overflow-hidden"
+        >
+          <div
+            className="h-full bg-gradient-to-r from-pink-500 via-purple-500 to-blue-500 transition-[width] duration-150"
+            style={{ width: `${progress * 100}%` }}
+          />
+        </div>
+      )}
     </div>
   )
 }
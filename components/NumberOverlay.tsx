@@ -0,0 +1,48 @@
+"use client"
+
+import type { NumberLabel } from "@/lib/colorByNumber"
+import { MIN_NUMBER_FONT_SIZE, MAX_NUMBER_FONT_SIZE } from "@/lib/constants"
+
+interface NumberOverlayProps {
+  labels: NumberLabel[]
+  completedRegions: ReadonlySet<number> // Their numbers are hidden
+  width: number
+  height: number
+}
+
+export default function NumberOverlay({
+  labels,
+  completedRegions,
+  width,
+  height,
+}: NumberOverlayProps) {
+  return (
+    <svg
+      viewBox={`0 0 ${width} ${height}`}
+      className="absolute top-0 left-0 w-full h-full pointer-events-none select-none"
+    >
+      {labels
+        .filter((label) => !completedRegions.has(label.regionId))
+        .map((label) => (
+          <text
+            key={label.regionId}
+            x={label.x}
+            y={label.y}
+            // The number fits inside the room around its point
+            fontSize={Math.min(
+              Math.max(label.radius, MIN_NUMBER_FONT_SIZE),
+              MAX_NUMBER_FONT_SIZE
+            )}
+            textAnchor="middle"
+            dominantBaseline="central"
+            className="font-bold fill-gray-500"
+            stroke="white"
+            strokeWidth={4}
+            paintOrder="stroke"
+          >
+            {label.number}
+          </text>
+        ))}
+    </svg>
+  )
+}
@@ -0,0 +1,45 @@
+"use client"
+
+interface NumberPaletteProps {
+  palette: string[] // The color of each number (number 1 is the first)
+  selectedColor: string
+  onColorChange: (color: string) => void
+}
+
+export default function NumberPalette({
+  palette,
+  selectedColor,
+  onColorChange,
+}: NumberPaletteProps) {
+  return (
+    <div className="landscape:h-full py-4 px-4 bg-white dark:bg-gray-800 rounded-2xl border-4 border-gray-300 dark:border-gray-700 portrait:overflow-x-auto portrait:overflow-y-hidden landscape:overflow-y-auto landscape:overflow-x-hidden">
+      <div className="flex portrait:flex-row landscape:flex-col gap-4 items-center">
+        {palette.map((color, index) => {
+          const isSelected = selectedColor.toLowerCase() === color.toLowerCase()
+          return (
+            <button
+              key={`${index}-${color}`}
+              onClick={() => onColorChange(color)}
+              className={`
+                relative rounded-full transition-all duration-200 flex-shrink-0 flex items-center justify-center
+                ${
+                  isSelected
+                    ? "w-16 h-16 ring-4 ring-offset-4  scale-110"
+                    : "w-16 h-16 hover:scale-105"
+                }
+              `}
+              style={{ backgroundColor: color }}
+              aria-label={`Select color ${index + 1}`}
+              aria-pressed={isSelected}
+            >
+              {/* The number, outlined so it reads on light and dark colors */}
+              <span className="text-2xl font-bold text-white [paint-order:stroke] [-webkit-text-stroke:4px_#374151]">
+                {index + 1}
+              </span>
+            </button>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -4,12 +4,14 @@ import { useEffect, useRef } from "react"
 
 interface OutlineOverlayProps {
   outlineImage: HTMLImageElement
-  size: number
+  width: number
+  height: number
 }
 
 export default function OutlineOverlay({
   outlineImage,
-  size,
+  width,
+  height,
 }: OutlineOverlayProps) {
   const canvasRef = useRef<HTMLCanvasElement>(null)
 
@@ -20,15 +22,16 @@ export default function OutlineOverlay({
     const ctx = canvas.getContext("2d")
     if (!ctx) return
 
-    // Draw the outline image directly (images already have transparent backgrounds)
-    ctx.drawImage(outlineImage, 0, 0)
-  }, [outlineImage, size])
+    // Draw the outline image scaled to the page (images already have transparent backgrounds)
+    ctx.clearRect(0, 0, width, height)
+    ctx.drawImage(outlineImage, 0, 0, width, height)
+  }, [outlineImage, width, height])
 
   return (
     <canvas
       ref={canvasRef}
-      width={size}
-      height={size}
+      width={width}
+      height={height}
       className="absolute top-0 left-0 w-full h-full pointer-events-none"
     />
   )
@@ -0,0 +1,93 @@
+"use client"
+
+import { useEffect, useRef } from "react"
+import { PATTERNS, createPatternPaint, type PatternType } from "@/lib/patterns"
+
+interface PatternPickerProps {
+  selectedPattern: PatternType | null
+  onPatternChange: (pattern: PatternType | null) => void
+  color: string
+  secondaryColor: string
+}
+
+const PREVIEW_SIZE = 40
+
+/**
+ * A swatch of a pattern (or the flat color) in the current colors
+ */
+function PatternPreview({
+  pattern,
+  color,
+  secondaryColor,
+}: {
+  pattern: PatternType | null
+  color: string
+  secondaryColor: string
+}) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext("2d")
+    if (!canvas || !ctx) return
+
+    ctx.fillStyle = pattern
+      ? createPatternPaint(
+          ctx,
+          {
+            type: pattern,
+            secondaryColor,
+            bounds: { x: 0, y: 0, width: PREVIEW_SIZE * 2, height: PREVIEW_SIZE * 2 },
+          },
+          color
+        )
+      : color
+    ctx.fillRect(0, 0, PREVIEW_SIZE, PREVIEW_SIZE)
+  }, [pattern, color, secondaryColor])
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={PREVIEW_SIZE}
+      height={PREVIEW_SIZE}
+      className="rounded-md"
+    />
+  )
+}
+
+export default function PatternPicker({
+  selectedPattern,
+  onPatternChange,
+  color,
+  secondaryColor,
+}: PatternPickerProps) {
+  // The flat color comes first, then every pattern
+  const options = [
+    { type: null, name: "Plain" },
+    ...PATTERNS,
+  ]
+
+  return (
+    <div className="flex portrait:flex-row landscape:flex-col gap-3 p-2 bg-white dark:bg-gray-800 rounded-xl border-4 border-gray-300 dark:border-gray-700 portrait:h-20 landscape:w-20 items-center">
+      {options.map((option) => (
+        <button
+          key={option.type ?? "plain"}
+          onClick={() => onPatternChange(option.type)}
+          className={`h-14 aspect-square rounded-xl border-4 flex items-center justify-center transition-all ${
+            selectedPattern === option.type
+              ? "bg-blue-500 border-blue-600 scale-105"
+              : "bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:border-blue-400"
+          }`}
+          aria-label={option.name}
+          aria-pressed={selectedPattern === option.type}
+        >
+          <PatternPreview
+            pattern={option.type}
+            color={color}
+            secondaryColor={secondaryColor}
+          />
+        </button>
+      ))}
+    </div>
+  )
+}
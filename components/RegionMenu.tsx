@@ -0,0 +1,46 @@
+"use client"
+
+import { Trash2Icon, Undo2Icon } from "lucide-react"
+
+interface RegionMenuProps {
+  // Where the region was pressed, relative to the visible canvas view (0-1)
+  position: { x: number; y: number }
+  canUndo: boolean
+  onClear: () => void
+  onUndo: () => void
+  onClose: () => void
+}
+
+export default function RegionMenu({
+  position,
+  canUndo,
+  onClear,
+  onUndo,
+  onClose,
+}: RegionMenuProps) {
+  return (
+    // Tapping anywhere outside the menu closes it
+    <div className="absolute inset-0 z-20" onPointerDown={onClose}>
+      <div
+        className="absolute flex gap-3 p-2 bg-white dark:bg-gray-800 rounded-xl border-4 border-gray-300 dark:border-gray-700 -translate-x-1/2 -translate-y-1/2"
+        style={{ left: `${position.x * 100}%`, top: `${position.y * 100}%` }}
+        onPointerDown={(event) => event.stopPropagation()}
+      >
+        <button
+          onClick={onUndo}
+          disabled={!canUndo}
+          className="h-14 aspect-square rounded-xl border-4 flex items-center justify-center transition-all bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:border-blue-400 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Undo2Icon className="text-gray-800 dark:text-gray-200" size={28} />
+        </button>
+
+        <button
+          onClick={onClear}
+          className="h-14 aspect-square rounded-xl border-4 flex items-center justify-center transition-all bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:border-red-400"
+        >
+          <Trash2Icon className="text-gray-800 dark:text-gray-200" size={28} />
+        </button>
+      </div>
+    </div>
+  )
+}
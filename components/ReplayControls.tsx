@@ -0,0 +1,145 @@
+"use client"
+
+import { useEffect, useMemo, useRef, useState } from "react"
+import { PlayIcon, PauseIcon, TurtleIcon, RabbitIcon, RocketIcon, XIcon } from "lucide-react"
+import { Slider } from "./ui/slider"
+import type { DrawingLayer } from "@/lib/layerGeneration"
+import type { DrawingStep } from "@/lib/drawingLog"
+import {
+  createReplayPlayer,
+  createReplayTimeline,
+  type ReplayPlayer,
+} from "@/lib/drawingReplay"
+
+interface ReplayControlsProps {
+  layers: DrawingLayer[]
+  steps: DrawingStep[]
+  onRender: () => void // Called after the layers change, to show them
+  onClose: () => void
+}
+
+// Playback speeds, slowest first
+const REPLAY_SPEEDS = [
+  { speed: 1, Icon: TurtleIcon },
+  { speed: 4, Icon: RabbitIcon },
+  { speed: 16, Icon: RocketIcon },
+]
+
+const DEFAULT_SPEED = 4
+
+export default function ReplayControls({
+  layers,
+  steps,
+  onRender,
+  onClose,
+}: ReplayControlsProps) {
+  const timeline = useMemo(() => createReplayTimeline(steps), [steps])
+  const playerRef = useRef<ReplayPlayer | null>(null)
+
+  const [time, setTime] = useState(0)
+  const [isPlaying, setIsPlaying] = useState(true)
+  const [speed, setSpeed] = useState(DEFAULT_SPEED)
+
+  // Clear the layers for playback, and leave the finished picture behind on exit
+  useEffect(() => {
+    const player = createReplayPlayer(layers, timeline)
+    playerRef.current = player
+    onRender()
+    return () => {
+      player.seek(player.duration)
+      playerRef.current = null
+      onRender()
+    }
+  }, [layers, timeline, onRender])
+
+  // Render the frame for the current position
+  useEffect(() => {
+    playerRef.current?.seek(time)
+    onRender()
+    if (time >= timeline.duration) setIsPlaying(false)
+  }, [time, timeline, onRender])
+
+  // Advance the position every animation frame while playing
+  useEffect(() => {
+    if (!isPlaying) return
+
+    let frame = 0
+    let lastFrameTime = performance.now()
+    const tick = (now: number) => {
+      const elapsed = (now - lastFrameTime) * speed
+      lastFrameTime = now
+      setTime((previous) => Math.min(previous + elapsed, timeline.duration))
+      frame = requestAnimationFrame(tick)
+    }
+
+    frame = requestAnimationFrame(tick)
+    return () => cancelAnimationFrame(frame)
+  }, [isPlaying, speed, timeline])
+
+  const handlePlayPause = () => {
+    if (isPlaying) {
+      setIsPlaying(false)
+      return
+    }
+
+    // Start over when playing from the end
+    if (time >= timeline.duration) setTime(0)
+    setIsPlaying(true)
+  }
+
+  const handleScrub = ([value]: number[]) => {
+    setIsPlaying(false)
+    setTime(value)
+  }
+
+  return (
+    // Covers the canvas so no drawing can happen during playback
+    <div className="absolute inset-0 z-10 flex flex-col justify-end p-4">
+      <div className="flex items-center gap-3 p-2 bg-white dark:bg-gray-800 rounded-xl border-4 border-gray-300 dark:border-gray-700">
+        <button
+          onClick={handlePlayPause}
+          className="h-14 aspect-square flex-shrink-0 rounded-xl border-4 flex items-center justify-center transition-all bg-blue-500 border-blue-600"
+        >
+          {isPlaying ? (
+            <PauseIcon className="text-white" size={28} />
+          ) : (
+            <PlayIcon className="text-white" size={28} />
+          )}
+        </button>
+
+        {REPLAY_SPEEDS.map(({ speed: option, Icon }) => (
+          <button
+            key={option}
+            onClick={() => setSpeed(option)}
+            className={`h-14 aspect-square flex-shrink-0 rounded-xl border-4 flex items-center justify-center transition-all ${
+              speed === option
+                ? "bg-blue-500 border-blue-600 scale-105"
+                : "bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:border-blue-400"
+            }`}
+          >
+            <Icon
+              className={speed === option ? "text-white" : "text-gray-800 dark:text-gray-200"}
+              size={28}
+            />
+          </button>
+        ))}
+
+        <Slider
+          value={[time]}
+          min={0}
+          max={Math.max(timeline.duration, 1)}
+          step={1}
+          onValueChange={handleScrub}
+          className="mx-2 [&_[data-slot=slider-thumb]]:size-8"
+        />
+
+        <button
+          onClick={onClose}
+          className="h-14 aspect-square flex-shrink-0 rounded-xl border-4 flex items-center justify-center transition-all bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:border-red-400"
+        >
+          <XIcon className="text-gray-800 dark:text-gray-200" size={28} />
+        </button>
+      </div>
+    </div>
+  )
+}
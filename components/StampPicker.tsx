@@ -0,0 +1,66 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { STAMPS, loadStampImages, renderStamp } from "@/lib/stamps"
+
+interface StampPickerProps {
+  selectedStamp: string
+  onStampChange: (stampId: string) => void
+}
+
+const PREVIEW_SIZE = 36
+
+/**
+ * A stamp drawn in the button's text color (so it follows selection and dark mode)
+ */
+function StampPreview({ stampId, selected }: { stampId: string; selected: boolean }) {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [imagesLoaded, setImagesLoaded] = useState(false)
+
+  useEffect(() => {
+    loadStampImages().then(() => setImagesLoaded(true))
+  }, [])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext("2d")
+    if (!canvas || !ctx) return
+
+    ctx.clearRect(0, 0, canvas.width, canvas.height)
+    const color = getComputedStyle(canvas).color
+    renderStamp(ctx, stampId, PREVIEW_SIZE / 2, PREVIEW_SIZE / 2, PREVIEW_SIZE, color)
+  }, [stampId, selected, imagesLoaded])
+
+  return (
+    <canvas
+      ref={canvasRef}
+      width={PREVIEW_SIZE}
+      height={PREVIEW_SIZE}
+      className={selected ? "text-white" : "text-gray-800 dark:text-gray-200"}
+    />
+  )
+}
+
+export default function StampPicker({
+  selectedStamp,
+  onStampChange,
+}: StampPickerProps) {
+  return (
+    <div className="flex portrait:flex-row landscape:flex-col gap-3 p-2 bg-white dark:bg-gray-800 rounded-xl border-4 border-gray-300 dark:border-gray-700 portrait:h-20 landscape:w-20 items-center">
+      {STAMPS.map((stamp) => (
+        <button
+          key={stamp.id}
+          onClick={() => onStampChange(stamp.id)}
+          className={`h-14 aspect-square rounded-xl border-4 flex items-center justify-center transition-all ${
+            selectedStamp === stamp.id
+              ? "bg-blue-500 border-blue-600 scale-105"
+              : "bg-white dark:bg-gray-700 border-gray-300 dark:border-gray-600 hover:border-blue-400"
+          }`}
+          aria-label={stamp.name}
+        >
+          <StampPreview stampId={stamp.id} selected={selectedStamp === stamp.id} />
+        </button>
+      ))}
+    </div>
+  )
+}
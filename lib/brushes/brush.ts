@@ -0,0 +1,171 @@
+/**
+ * Brush
+ * The interface every brush module implements, plus helpers shared between brushes
+ *
+ * The stroke renderer resolves each point's width and opacity (pressure and
+ * tilt) and hands the brush the final polyline. Brushes draw with whatever
+ * composite operation the caller has set, so region clipping (source-atop)
+ * applies to them automatically. Brushes that need their own compositing
+ * (blend modes, masking) build the stroke on a scratch canvas and draw that
+ * back in a single drawImage call.
+ *
+ * Brushes must be deterministic - the same path always gives the same pixels -
+ * so drawings replay exactly. Randomness comes from a generator seeded by the path.
+ */
+
+import type { StrokePoint } from "../strokeRenderer"
+import type { PixelRect } from "../pixelRect"
+import type { FillStyle } from "../layerGeneration"
+
+export interface BrushPoint extends StrokePoint {
+  width: number // Line width in canvas pixels
+  opacity: number // 0-1
+}
+
+export interface BrushPaint {
+  color: string // The flat color (for effects that need one, like shadows and tinting)
+  style: FillStyle // What to paint with: the color, or a pattern or gradient of it
+}
+
+export interface Brush {
+  // Draw a committed polyline (at least two points)
+  renderPath: (ctx: CanvasRenderingContext2D, points: BrushPoint[], paint: BrushPaint) => void
+  // Draw a single dot (quick taps and the start of every stroke)
+  renderDot: (ctx: CanvasRenderingContext2D, point: BrushPoint, paint: BrushPaint) => void
+  // How far past half the line width the brush can paint
+  getMargin: (width: number) => number
+}
+
+/**
+ * Average a numeric field over a path
+ */
+export function averageOf(points: BrushPoint[], key: "width" | "opacity"): number {
+  return points.reduce((sum, point) => sum + point[key], 0) / points.length
+}
+
+/**
+ * Trace a polyline as the current path
+ */
+export function tracePath(ctx: CanvasRenderingContext2D, points: StrokePoint[]): void {
+  ctx.beginPath()
+  ctx.moveTo(points[0].x, points[0].y)
+  for (let i = 1; i < points.length; i++) {
+    ctx.lineTo(points[i].x, points[i].y)
+  }
+}
+
+/**
+ * Whole-pixel bounds of a path widened by a margin on every side
+ */
+export function getPathRect(points: StrokePoint[], margin: number): PixelRect {
+  const xs = points.map((point) => point.x)
+  const ys = points.map((point) => point.y)
+  const x = Math.floor(Math.min(...xs) - margin)
+  const y = Math.floor(Math.min(...ys) - margin)
+
+  return {
+    x,
+    y,
+    width: Math.ceil(Math.max(...xs) + margin) - x,
+    height: Math.ceil(Math.max(...ys) + margin) - y,
+  }
+}
+
+const scratchCanvases: HTMLCanvasElement[] = []
+// The scale each scratch canvas was last set up at
+const scratchScales = new WeakMap<HTMLCanvasElement, number>()
+
+/**
+ * Canvas pixels per page pixel of a context (layers and the preview are drawn at the display's resolution)
+ */
+export function getPixelScale(ctx: CanvasRenderingContext2D): number {
+  const { a, b } = ctx.getTransform()
+  return Math.hypot(a, b)
+}
+
+/**
+ * Get a cleared scratch canvas covering a rect of the page (index picks one of several)
+ * It is scaled and translated so brushes draw in page coordinates, which keeps
+ * patterns and gradients aligned with the page; pass the scale of the canvas
+ * the result is drawn back onto. Scratch canvases are reused between calls.
+ */
+export function getScratchContext(
+  rect: PixelRect,
+  index = 0,
+  scale = 1
+): CanvasRenderingContext2D | null {
+  if (!scratchCanvases[index]) {
+    scratchCanvases[index] = document.createElement("canvas")
+  }
+
+  const canvas = scratchCanvases[index]
+  const width = Math.ceil(rect.width * scale)
+  const height = Math.ceil(rect.height * scale)
+  if (canvas.width < width || canvas.height < height) {
+    canvas.width = Math.max(canvas.width, width)
+    canvas.height = Math.max(canvas.height, height)
+  }
+  scratchScales.set(canvas, scale)
+
+  const ctx = canvas.getContext("2d")
+  if (!ctx) return null
+
+  ctx.setTransform(1, 0, 0, 1, 0, 0)
+  ctx.globalAlpha = 1
+  ctx.globalCompositeOperation = "source-over"
+  ctx.clearRect(0, 0, width, height)
+  ctx.setTransform(scale, 0, 0, scale, -rect.x * scale, -rect.y * scale)
+  return ctx
+}
+
+/**
+ * Draw the part of a scratch canvas covering a rect back onto the page
+ */
+export function drawScratch(
+  ctx: CanvasRenderingContext2D,
+  scratch: CanvasRenderingContext2D,
+  rect: PixelRect
+): void {
+  const scale = scratchScales.get(scratch.canvas) ?? 1
+  ctx.drawImage(
+    scratch.canvas,
+    0,
+    0,
+    rect.width * scale,
+    rect.height * scale,
+    rect.x,
+    rect.y,
+    rect.width,
+    rect.height
+  )
+}
+
+/**
+ * Copy a canvas's current pixels onto a scratch canvas, at the same place on the page
+ */
+export function copyToScratch(scratch: CanvasRenderingContext2D, ctx: CanvasRenderingContext2D): void {
+  // Map the canvas's own pixels back to page coordinates, then onto the scratch canvas
+  scratch.save()
+  scratch.setTransform(scratch.getTransform().multiply(ctx.getTransform().inverse()))
+  scratch.drawImage(ctx.canvas, 0, 0)
+  scratch.restore()
+}
+
+/**
+ * Deterministic pseudo-random generator (mulberry32), seeded from a path
+ * so a replayed stroke scatters its texture exactly as it was drawn
+ */
+export function createPathRandom(points: StrokePoint[]): () => number {
+  let seed = 0
+  for (const point of points.slice(0, 4)) {
+    seed = Math.imul(seed ^ Math.round(point.x * 16), 0x9e3779b1)
+    seed = Math.imul(seed ^ Math.round(point.y * 16), 0x85ebca6b)
+  }
+
+  return () => {
+    seed = (seed + 0x6d2b79f5) | 0
+    let t = Math.imul(seed ^ (seed >>> 15), 1 | seed)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
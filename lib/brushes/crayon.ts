@@ -0,0 +1,102 @@
+/**
+ * Crayon Brush
+ * Waxy strokes broken up by paper grain
+ *
+ * The stroke is painted with a pattern of the color cut out by a grain
+ * texture. The pattern is anchored to the page rather than the stroke, so
+ * strokes drawn over each other catch on the same bumps of "paper".
+ * Patterned paints are drawn as a grain of their base color.
+ */
+
+import { averageOf, tracePath, type Brush } from "./brush"
+
+const GRAIN_SIZE = 128
+const GRAIN_CELL = 2 // Pixels per grain speck
+const GRAIN_MIN_ALPHA = 0.25 // Alpha of the deepest paper pits
+
+let grainCanvas: HTMLCanvasElement | null = null
+const patternCanvases = new Map<string, HTMLCanvasElement>()
+
+/**
+ * The paper grain as an alpha texture (generated once, identical every time)
+ */
+function getGrain(): HTMLCanvasElement {
+  if (grainCanvas) return grainCanvas
+
+  const canvas = document.createElement("canvas")
+  canvas.width = GRAIN_SIZE
+  canvas.height = GRAIN_SIZE
+  const ctx = canvas.getContext("2d")
+  if (!ctx) return canvas
+
+  const image = ctx.createImageData(GRAIN_SIZE, GRAIN_SIZE)
+  let seed = 1
+  const random = () => {
+    seed = (seed * 16807) % 2147483647
+    return seed / 2147483647
+  }
+
+  for (let cy = 0; cy < GRAIN_SIZE; cy += GRAIN_CELL) {
+    for (let cx = 0; cx < GRAIN_SIZE; cx += GRAIN_CELL) {
+      // Bias toward full coverage so only some specks show the paper through
+      const alpha = GRAIN_MIN_ALPHA + (1 - GRAIN_MIN_ALPHA) * Math.sqrt(random())
+      for (let y = cy; y < cy + GRAIN_CELL; y++) {
+        for (let x = cx; x < cx + GRAIN_CELL; x++) {
+          image.data[(y * GRAIN_SIZE + x) * 4 + 3] = Math.round(alpha * 255)
+        }
+      }
+    }
+  }
+
+  ctx.putImageData(image, 0, 0)
+  grainCanvas = canvas
+  return canvas
+}
+
+/**
+ * The grain texture tinted with a color (cached per color)
+ */
+function getPatternCanvas(color: string): HTMLCanvasElement {
+  const cached = patternCanvases.get(color)
+  if (cached) return cached
+
+  const canvas = document.createElement("canvas")
+  canvas.width = GRAIN_SIZE
+  canvas.height = GRAIN_SIZE
+  const ctx = canvas.getContext("2d")
+  if (ctx) {
+    ctx.fillStyle = color
+    ctx.fillRect(0, 0, GRAIN_SIZE, GRAIN_SIZE)
+    ctx.globalCompositeOperation = "destination-in"
+    ctx.drawImage(getGrain(), 0, 0)
+  }
+
+  patternCanvases.set(color, canvas)
+  return canvas
+}
+
+function getCrayonStyle(ctx: CanvasRenderingContext2D, color: string): CanvasPattern | string {
+  return ctx.createPattern(getPatternCanvas(color), "repeat") ?? color
+}
+
+export const crayonBrush: Brush = {
+  renderPath: (ctx, points, paint) => {
+    ctx.strokeStyle = getCrayonStyle(ctx, paint.color)
+    ctx.lineWidth = averageOf(points, "width")
+    ctx.lineJoin = "round"
+    ctx.lineCap = "round"
+    ctx.globalAlpha = averageOf(points, "opacity")
+    tracePath(ctx, points)
+    ctx.stroke()
+  },
+
+  renderDot: (ctx, point, paint) => {
+    ctx.fillStyle = getCrayonStyle(ctx, paint.color)
+    ctx.globalAlpha = point.opacity
+    ctx.beginPath()
+    ctx.arc(point.x, point.y, point.width / 2, 0, Math.PI * 2)
+    ctx.fill()
+  },
+
+  getMargin: () => 0,
+}
@@ -0,0 +1,82 @@
+/**
+ * Glitter Brush
+ * A light tinted trail scattered with sparkling particles
+ *
+ * Particles are placed by a generator seeded from the path, so a replayed
+ * stroke sparkles exactly as it did when it was drawn.
+ */
+
+import { solidBrush } from "./solid"
+import { createPathRandom, type Brush, type BrushPaint, type BrushPoint } from "./brush"
+
+const TRAIL_OPACITY = 0.35 // Opacity of the tinted trail under the particles
+const PARTICLE_SPACING = 0.25 // Distance between particle bursts, relative to the line width
+const PARTICLES_PER_BURST = 3
+const PARTICLE_SIZE = 0.12 // Relative to the line width
+const MIN_PARTICLE_SIZE = 1.5
+const HIGHLIGHT_CHANCE = 0.3 // Share of particles that catch the light (white)
+
+/**
+ * Scatter particles within the line width around a point
+ */
+function sprinkle(
+  ctx: CanvasRenderingContext2D,
+  point: BrushPoint,
+  paint: BrushPaint,
+  random: () => number
+): void {
+  const radius = point.width / 2
+  const size = Math.max(MIN_PARTICLE_SIZE, point.width * PARTICLE_SIZE)
+
+  for (let i = 0; i < PARTICLES_PER_BURST; i++) {
+    const angle = random() * Math.PI * 2
+    const distance = Math.sqrt(random()) * radius
+    const particleSize = size * (0.5 + random())
+
+    ctx.fillStyle = random() < HIGHLIGHT_CHANCE ? "#FFFFFF" : paint.style
+    ctx.globalAlpha = point.opacity * (0.6 + random() * 0.4)
+    ctx.fillRect(
+      point.x + Math.cos(angle) * distance - particleSize / 2,
+      point.y + Math.sin(angle) * distance - particleSize / 2,
+      particleSize,
+      particleSize
+    )
+  }
+}
+
+/**
+ * Trail opacity: the particles carry the color, the trail only tints the page
+ */
+function withTrailOpacity(point: BrushPoint): BrushPoint {
+  return { ...point, opacity: point.opacity * TRAIL_OPACITY }
+}
+
+export const glitterBrush: Brush = {
+  renderPath: (ctx, points, paint) => {
+    solidBrush.renderPath(ctx, points.map(withTrailOpacity), paint)
+
+    // Walk the path, dropping a burst of particles every few pixels
+    const random = createPathRandom(points)
+    let carried = 0
+    for (let i = 1; i < points.length; i++) {
+      const from = points[i - 1]
+      const to = points[i]
+      const length = Math.hypot(to.x - from.x, to.y - from.y)
+      const spacing = Math.max(1, to.width * PARTICLE_SPACING)
+
+      for (let d = spacing - carried; d <= length; d += spacing) {
+        const t = d / length
+        sprinkle(ctx, { ...to, x: from.x + (to.x - from.x) * t, y: from.y + (to.y - from.y) * t }, paint, random)
+      }
+      carried = (carried + length) % spacing
+    }
+  },
+
+  renderDot: (ctx, point, paint) => {
+    solidBrush.renderDot(ctx, withTrailOpacity(point), paint)
+    sprinkle(ctx, point, paint, createPathRandom([point]))
+  },
+
+  // Particles near the rim can poke out past it
+  getMargin: (width) => Math.max(MIN_PARTICLE_SIZE, width * PARTICLE_SIZE) * 0.75,
+}
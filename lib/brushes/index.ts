@@ -0,0 +1,30 @@
+/**
+ * Brushes
+ * Registry of the brush modules the stroke renderer can draw with
+ *
+ * To add a brush, implement the Brush interface in its own module and list it
+ * here; BrushType and the brush buttons follow from this list.
+ */
+
+import { solidBrush } from "./solid"
+import { softBrush } from "./soft"
+import { crayonBrush } from "./crayon"
+import { markerBrush } from "./marker"
+import { watercolorBrush } from "./watercolor"
+import { glitterBrush } from "./glitter"
+import type { Brush } from "./brush"
+
+export const BRUSHES = {
+  solid: solidBrush,
+  soft: softBrush,
+  crayon: crayonBrush,
+  marker: markerBrush,
+  watercolor: watercolorBrush,
+  glitter: glitterBrush,
+} satisfies Record<string, Brush>
+
+export type BrushType = keyof typeof BRUSHES
+
+export const BRUSH_TYPES = Object.keys(BRUSHES) as BrushType[]
+
+export type { Brush, BrushPaint, BrushPoint } from "./brush"
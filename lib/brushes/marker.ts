@@ -0,0 +1,84 @@
+/**
+ * Marker Brush
+ * Flat, translucent ink that darkens where it overlaps (multiply)
+ *
+ * Canvas can't blend with multiply and clip with source-atop at the same
+ * time, so the stroke is built on a scratch canvas: the pixels under it are
+ * copied in, the ink is multiplied onto them, everything outside the stroke is
+ * cut away, and the result is drawn back with the caller's compositing.
+ */
+
+import {
+  averageOf,
+  copyToScratch,
+  drawScratch,
+  getPixelScale,
+  getPathRect,
+  getScratchContext,
+  tracePath,
+  type Brush,
+  type BrushPaint,
+  type BrushPoint,
+} from "./brush"
+
+const MARKER_OPACITY = 0.8 // Marker ink is never fully opaque
+
+/**
+ * Multiply a shape onto the pixels beneath it
+ * @param paintShape - Fills or strokes the shape with the scratch context's current style
+ */
+function renderMultiplied(
+  ctx: CanvasRenderingContext2D,
+  points: BrushPoint[],
+  width: number,
+  opacity: number,
+  paint: BrushPaint,
+  paintShape: (scratch: CanvasRenderingContext2D) => void
+): void {
+  const rect = getPathRect(points, width)
+  const scratch = getScratchContext(rect, 0, getPixelScale(ctx))
+  if (!scratch) return
+
+  // Copy the current pixels under the stroke
+  copyToScratch(scratch, ctx)
+
+  // Multiply the ink onto them
+  scratch.globalCompositeOperation = "multiply"
+  scratch.globalAlpha = opacity * MARKER_OPACITY
+  scratch.fillStyle = paint.style
+  scratch.strokeStyle = paint.style
+  paintShape(scratch)
+
+  // Keep only the stroke itself
+  scratch.globalCompositeOperation = "destination-in"
+  scratch.globalAlpha = 1
+  paintShape(scratch)
+
+  drawScratch(ctx, scratch, rect)
+}
+
+export const markerBrush: Brush = {
+  renderPath: (ctx, points, paint) => {
+    const width = averageOf(points, "width")
+
+    // Butt caps so consecutive paths of a stroke meet without doubling the ink
+    renderMultiplied(ctx, points, width, averageOf(points, "opacity"), paint, (scratch) => {
+      scratch.lineWidth = width
+      scratch.lineJoin = "round"
+      scratch.lineCap = "butt"
+      tracePath(scratch, points)
+      scratch.stroke()
+    })
+  },
+
+  // A flat, square tip
+  renderDot: (ctx, point, paint) => {
+    const half = point.width / 2
+    renderMultiplied(ctx, [point], point.width, point.opacity, paint, (scratch) => {
+      scratch.fillRect(point.x - half, point.y - half, point.width, point.width)
+    })
+  },
+
+  // The corners of the square tip reach past the round outline
+  getMargin: (width) => width * 0.25,
+}
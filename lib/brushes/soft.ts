@@ -0,0 +1,27 @@
+/**
+ * Soft Brush
+ * The solid brush with a blurred edge
+ */
+
+import { solidBrush } from "./solid"
+import { averageOf, getPixelScale, type Brush } from "./brush"
+
+// Blur radius relative to the line width
+// (shadows ignore the canvas transform, so the blur is scaled to the canvas by hand)
+const SOFT_BLUR = 0.5
+
+export const softBrush: Brush = {
+  renderPath: (ctx, points, paint) => {
+    ctx.shadowColor = paint.color
+    ctx.shadowBlur = averageOf(points, "width") * SOFT_BLUR * getPixelScale(ctx)
+    solidBrush.renderPath(ctx, points, paint)
+  },
+
+  renderDot: (ctx, point, paint) => {
+    ctx.shadowColor = paint.color
+    ctx.shadowBlur = point.width * SOFT_BLUR * getPixelScale(ctx)
+    solidBrush.renderDot(ctx, point, paint)
+  },
+
+  getMargin: (width) => width * SOFT_BLUR,
+}
@@ -0,0 +1,29 @@
+/**
+ * Solid Brush
+ * Plain round-tipped strokes in a flat color
+ */
+
+import { averageOf, tracePath, type Brush } from "./brush"
+
+export const solidBrush: Brush = {
+  // One path per polyline avoids darkened overlaps between its sub-segments at low opacity
+  renderPath: (ctx, points, paint) => {
+    ctx.strokeStyle = paint.style
+    ctx.lineWidth = averageOf(points, "width")
+    ctx.lineJoin = "round"
+    ctx.lineCap = "round"
+    ctx.globalAlpha = averageOf(points, "opacity")
+    tracePath(ctx, points)
+    ctx.stroke()
+  },
+
+  renderDot: (ctx, point, paint) => {
+    ctx.fillStyle = paint.style
+    ctx.globalAlpha = point.opacity
+    ctx.beginPath()
+    ctx.arc(point.x, point.y, point.width / 2, 0, Math.PI * 2)
+    ctx.fill()
+  },
+
+  getMargin: () => 0,
+}
@@ -0,0 +1,102 @@
+/**
+ * Watercolor Brush
+ * Translucent washes with darker wet edges and pooling where the brush lingers
+ *
+ * Each path is built on a scratch canvas: a light body, a ring of darker
+ * pigment along its edge (where paint dries first), and extra pigment pooled
+ * at slow points. It is drawn back in one call, so the wash doesn't darken
+ * where its own layers overlap, while separate paths build up like glazes.
+ */
+
+import {
+  averageOf,
+  drawScratch,
+  getPathRect,
+  getPixelScale,
+  getScratchContext,
+  tracePath,
+  type Brush,
+  type BrushPaint,
+  type BrushPoint,
+} from "./brush"
+
+const BODY_ALPHA = 0.35
+const EDGE_ALPHA = 0.45
+const EDGE_WIDTH = 0.15 // Relative to the line width
+const POOL_ALPHA = 0.12
+const POOL_RADIUS = 0.35 // Relative to the line width
+const POOL_DWELL_MS = 40 // Time spent near a point before paint starts pooling
+
+/**
+ * Build a wash on a scratch canvas and draw it back
+ * @param paintShape - Fills or strokes the wash shape at a line width
+ */
+function renderWash(
+  ctx: CanvasRenderingContext2D,
+  points: BrushPoint[],
+  width: number,
+  opacity: number,
+  paint: BrushPaint,
+  paintShape: (scratch: CanvasRenderingContext2D, lineWidth: number) => void
+): void {
+  const rect = getPathRect(points, width)
+  const scale = getPixelScale(ctx)
+  const wash = getScratchContext(rect, 0, scale)
+  const edge = getScratchContext(rect, 1, scale)
+  if (!wash || !edge) return
+
+  wash.fillStyle = wash.strokeStyle = paint.style
+  edge.fillStyle = edge.strokeStyle = paint.style
+
+  // Light body
+  wash.globalAlpha = BODY_ALPHA
+  paintShape(wash, width)
+
+  // Darker ring along the outline: the full shape minus a slightly narrower one
+  const edgeWidth = Math.max(1.5, width * EDGE_WIDTH)
+  paintShape(edge, width)
+  edge.globalCompositeOperation = "destination-out"
+  paintShape(edge, Math.max(0, width - edgeWidth * 2))
+  wash.globalAlpha = EDGE_ALPHA
+  drawScratch(wash, edge, rect)
+
+  // Pigment pools where the brush slowed down
+  wash.globalAlpha = POOL_ALPHA
+  points.forEach((point, i) => {
+    const next = points[i + 1]
+    const dwell = next ? next.time - point.time : POOL_DWELL_MS
+    if (dwell < POOL_DWELL_MS) return
+
+    wash.beginPath()
+    wash.arc(point.x, point.y, width * POOL_RADIUS, 0, Math.PI * 2)
+    wash.fill()
+  })
+
+  ctx.globalAlpha = opacity
+  drawScratch(ctx, wash, rect)
+}
+
+export const watercolorBrush: Brush = {
+  renderPath: (ctx, points, paint) => {
+    const width = averageOf(points, "width")
+    renderWash(ctx, points, width, averageOf(points, "opacity"), paint, (scratch, lineWidth) => {
+      if (lineWidth <= 0) return
+      scratch.lineWidth = lineWidth
+      scratch.lineJoin = "round"
+      scratch.lineCap = "round"
+      tracePath(scratch, points)
+      scratch.stroke()
+    })
+  },
+
+  renderDot: (ctx, point, paint) => {
+    renderWash(ctx, [point], point.width, point.opacity, paint, (scratch, lineWidth) => {
+      if (lineWidth <= 0) return
+      scratch.beginPath()
+      scratch.arc(point.x, point.y, lineWidth / 2, 0, Math.PI * 2)
+      scratch.fill()
+    })
+  },
+
+  getMargin: () => 0,
+}
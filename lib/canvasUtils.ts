@@ -4,24 +4,39 @@
  */
 
 import type { RGB } from "./floodFill";
+import { MAX_RENDER_SCALE, RENDER_SCALE_SLACK } from "./constants";
 
 /**
- * Get mouse coordinates relative to canvas
+ * Get mouse coordinates in page pixels, relative to an element showing the whole page
+ * (layer canvases only cover their region, so they can't be used for this)
+ * Coordinates keep their fraction, since layers render finer than page pixels
  */
-export function getCanvasCoordinates(
-  canvas: HTMLCanvasElement,
+export function getPageCoordinates(
+  element: HTMLElement,
+  pageWidth: number,
+  pageHeight: number,
   event: MouseEvent | React.MouseEvent | PointerEvent | React.PointerEvent
 ): { x: number; y: number } {
-  const rect = canvas.getBoundingClientRect();
-  const scaleX = canvas.width / rect.width;
-  const scaleY = canvas.height / rect.height;
+  const rect = element.getBoundingClientRect();
+  const scaleX = pageWidth / rect.width;
+  const scaleY = pageHeight / rect.height;
 
   return {
-    x: Math.floor((event.clientX - rect.left) * scaleX),
-    y: Math.floor((event.clientY - rect.top) * scaleY),
+    x: (event.clientX - rect.left) * scaleX,
+    y: (event.clientY - rect.top) * scaleY,
   };
 }
 
+/**
+ * Canvas pixels per page pixel that render a page at the display's physical resolution
+ * @param displayWidth - The page's width on screen in CSS pixels
+ * Rounded up to a whole number, so layer offsets and undo tiles stay on canvas pixels
+ */
+export function getRenderScale(displayWidth: number, pageWidth: number): number {
+  const physical = (displayWidth * (window.devicePixelRatio || 1)) / pageWidth;
+  return Math.min(MAX_RENDER_SCALE, Math.max(1, Math.ceil(physical - RENDER_SCALE_SLACK)));
+}
+
 /**
  * Convert hex color to RGB
  */
@@ -75,3 +90,21 @@ export function isInBounds(
 ): boolean {
   return x >= 0 && x < width && y >= 0 && y < height;
 }
+
+/**
+ * Get the full-rate samples the browser merged into a pointer move
+ * Falls back to the event itself where unsupported (and for synthetic touch events)
+ */
+export function getCoalescedPointerEvents(
+  event: React.PointerEvent
+): (PointerEvent | React.PointerEvent)[] {
+  const coalesced = event.nativeEvent?.getCoalescedEvents?.();
+  return coalesced && coalesced.length > 0 ? coalesced : [event];
+}
+
+/**
+ * Get the browser's predicted upcoming samples for a pointer move (may be empty)
+ */
+export function getPredictedPointerEvents(event: React.PointerEvent): PointerEvent[] {
+  return event.nativeEvent?.getPredictedEvents?.() ?? [];
+}
@@ -0,0 +1,217 @@
+/**
+ * Color By Number
+ * Numbered regions, their colors and where their numbers go
+ *
+ * A page's numbers come from a definition (see colorByNumberPages) that marks
+ * one point inside each region with its number, so it keeps working when the
+ * region detection changes. Pages without a definition are numbered
+ * automatically: neighbouring regions get different colors, spread evenly over
+ * the palette. Numbers are placed at each region's pole of inaccessibility (the
+ * point furthest from its edges), which stays inside rings and crescents where
+ * the bounding-box center would not.
+ *
+ * A region counts as done when its latest change is a region fill with its
+ * number's color, so undo, clear and region undo unlock it again.
+ */
+
+import { getRegionAt, type RegionMap } from "./regionDetection"
+import { getRegionActions, type DrawingAction } from "./drawingLog"
+import { COLOR_BY_NUMBER_PALETTE } from "./constants"
+
+export interface ColorByNumberDefinition {
+  palette: string[] // The color of each number (number 1 is the first)
+  regions: { x: number; y: number; number: number }[] // A point inside each numbered region
+}
+
+export interface NumberLabel {
+  regionId: number
+  number: number
+  x: number
+  y: number
+  radius: number // Distance to the region's nearest edge, for sizing the number
+}
+
+export interface ColorByNumberPage {
+  palette: string[]
+  numbers: Map<number, number> // Region ID to number
+  labels: NumberLabel[]
+}
+
+/**
+ * Number the regions of a page, from its definition or automatically
+ */
+export function createColorByNumberPage(
+  regionMap: RegionMap,
+  definition?: ColorByNumberDefinition
+): ColorByNumberPage {
+  const { palette, numbers } = definition
+    ? resolveDefinition(regionMap, definition)
+    : generateNumbers(regionMap)
+  const poles = findPolesOfInaccessibility(regionMap)
+
+  const labels: NumberLabel[] = []
+  numbers.forEach((number, regionId) => {
+    const pole = poles.get(regionId)
+    if (pole) labels.push({ regionId, number, ...pole })
+  })
+
+  return { palette, numbers, labels }
+}
+
+/**
+ * Number the regions the definition's points fall in (other regions stay free)
+ */
+function resolveDefinition(
+  regionMap: RegionMap,
+  definition: ColorByNumberDefinition
+): Pick<ColorByNumberPage, "palette" | "numbers"> {
+  const numbers = new Map<number, number>()
+
+  for (const { x, y, number } of definition.regions) {
+    const regionId = getRegionAt(regionMap, x, y)
+    if (regionId > 0 && number >= 1 && number <= definition.palette.length) {
+      numbers.set(regionId, number)
+    }
+  }
+
+  return { palette: definition.palette, numbers }
+}
+
+/**
+ * Number every region so that no two neighbours share a color
+ * Larger regions are numbered first, each taking the least used color its
+ * neighbours don't have (with more neighbours than colors, the least used one)
+ */
+function generateNumbers(regionMap: RegionMap): Pick<ColorByNumberPage, "palette" | "numbers"> {
+  const palette = [...COLOR_BY_NUMBER_PALETTE]
+  const uses = palette.map(() => 0)
+  const numbers = new Map<number, number>()
+  const byArea = [...regionMap.regions].sort((a, b) => b.area - a.area)
+
+  for (const { id: regionId, neighbours } of byArea) {
+    const taken = new Set<number>()
+    neighbours.forEach((neighbour) => {
+      const number = numbers.get(neighbour)
+      if (number !== undefined) taken.add(number)
+    })
+
+    let best = 1
+    for (let number = 1; number <= palette.length; number++) {
+      const isFree = !taken.has(number)
+      const bestIsFree = !taken.has(best)
+      if (
+        (isFree && !bestIsFree) ||
+        (isFree === bestIsFree && uses[number - 1] < uses[best - 1])
+      ) {
+        best = number
+      }
+    }
+
+    numbers.set(regionId, best)
+    uses[best - 1]++
+  }
+
+  // Only keep the colors that are used, renumbered in palette order
+  const used = palette.map((_, index) => index + 1).filter((number) => uses[number - 1] > 0)
+  const renumber = new Map(used.map((number, index) => [number, index + 1]))
+  numbers.forEach((number, regionId) => numbers.set(regionId, renumber.get(number)!))
+
+  return { palette: used.map((number) => palette[number - 1]), numbers }
+}
+
+/**
+ * The point of every region furthest from its edges, with that distance
+ * Uses a two-pass chamfer distance transform over the whole map, where the
+ * distance is to the nearest pixel outside the pixel's own region (or the page edge)
+ */
+function findPolesOfInaccessibility(
+  regionMap: RegionMap
+): Map<number, { x: number; y: number; radius: number }> {
+  const { width, height, pixelToRegion } = regionMap
+  const distance = new Float32Array(width * height)
+  const DIAGONAL = Math.SQRT2
+
+  const regionAt = (x: number, y: number) =>
+    x < 0 || y < 0 || x >= width || y >= height ? 0 : pixelToRegion[y * width + x]
+
+  // Distance through a neighbour in the same region (1 past the edge otherwise)
+  const through = (x: number, y: number, regionId: number, step: number) =>
+    regionAt(x, y) === regionId ? distance[y * width + x] + step : step
+
+  // Forward pass: top-left neighbours
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const regionId = pixelToRegion[y * width + x]
+      if (regionId <= 0) continue
+      distance[y * width + x] = Math.min(
+        through(x - 1, y, regionId, 1),
+        through(x, y - 1, regionId, 1),
+        through(x - 1, y - 1, regionId, DIAGONAL),
+        through(x + 1, y - 1, regionId, DIAGONAL)
+      )
+    }
+  }
+
+  // Backward pass: bottom-right neighbours, keeping the furthest point of each region
+  const poles = new Map<number, { x: number; y: number; radius: number }>()
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const index = y * width + x
+      const regionId = pixelToRegion[index]
+      if (regionId <= 0) continue
+      distance[index] = Math.min(
+        distance[index],
+        through(x + 1, y, regionId, 1),
+        through(x, y + 1, regionId, 1),
+        through(x + 1, y + 1, regionId, DIAGONAL),
+        through(x - 1, y + 1, regionId, DIAGONAL)
+      )
+
+      const pole = poles.get(regionId)
+      if (!pole || distance[index] > pole.radius) {
+        poles.set(regionId, { x, y, radius: distance[index] })
+      }
+    }
+  }
+
+  return poles
+}
+
+/**
+ * The color a region should be, or null if it has no number
+ */
+export function getRegionColor(page: ColorByNumberPage, regionId: number): string | null {
+  const number = page.numbers.get(regionId)
+  return number === undefined ? null : page.palette[number - 1]
+}
+
+/**
+ * Whether a color is the one a region's number asks for
+ */
+export function isCorrectColor(page: ColorByNumberPage, regionId: number, color: string): boolean {
+  return getRegionColor(page, regionId)?.toLowerCase() === color.toLowerCase()
+}
+
+/**
+ * The regions that are done: their latest change filled them with the right color
+ */
+export function getCompletedRegions(
+  page: ColorByNumberPage,
+  actions: DrawingAction[]
+): Set<number> {
+  const completed = new Set<number>()
+
+  page.numbers.forEach((_, regionId) => {
+    const latest = getRegionActions(regionId, actions).at(-1)
+    if (
+      latest?.type === "fill" &&
+      latest.mode === "region" &&
+      !latest.pattern &&
+      isCorrectColor(page, regionId, latest.color)
+    ) {
+      completed.add(regionId)
+    }
+  })
+
+  return completed
+}
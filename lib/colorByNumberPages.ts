@@ -0,0 +1,52 @@
+/**
+ * Color By Number Pages
+ * Hand-made color assignments for pages, keyed by page name
+ *
+ * Each numbered region is marked by a point inside it (in page pixels).
+ * Pages that aren't listed here are numbered automatically.
+ */
+
+import type { ColorByNumberDefinition } from "./colorByNumber"
+
+// Points near the top-left corner land in the background around the drawing
+export const COLOR_BY_NUMBER_PAGES: Record<string, ColorByNumberDefinition> = {
+  Star: {
+    palette: ["#FFD700", "#1565C0"],
+    regions: [
+      { x: 500, y: 500, number: 1 },
+      { x: 20, y: 20, number: 2 },
+    ],
+  },
+  Balloon: {
+    palette: ["#FF0000", "#87CEEB"],
+    regions: [
+      { x: 499, y: 453, number: 1 },
+      { x: 20, y: 20, number: 2 },
+    ],
+  },
+  "Ice Cream": {
+    palette: ["#FF4081", "#795548", "#D2B48C", "#87CEEB"],
+    regions: [
+      { x: 542, y: 333, number: 1 }, // Ice
+      { x: 453, y: 579, number: 2 }, // Chocolate dip
+      { x: 374, y: 794, number: 3 }, // Stick
+      { x: 20, y: 20, number: 4 },
+    ],
+  },
+  Sun: {
+    palette: ["#FFD700", "#FF8C00", "#87CEEB"],
+    regions: [
+      { x: 500, y: 500, number: 1 }, // Sun
+      // Rays, clockwise from the top
+      { x: 500, y: 171, number: 2 },
+      { x: 732, y: 267, number: 2 },
+      { x: 828, y: 500, number: 2 },
+      { x: 732, y: 732, number: 2 },
+      { x: 500, y: 828, number: 2 },
+      { x: 267, y: 732, number: 2 },
+      { x: 171, y: 500, number: 2 },
+      { x: 267, y: 267, number: 2 },
+      { x: 20, y: 20, number: 3 },
+    ],
+  },
+}
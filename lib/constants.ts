@@ -2,8 +2,8 @@
  * Application-wide constants
  */
 
-// Canvas and image dimensions
-export const CANVAS_SIZE = 1000
+// Working resolution (pages are detected and drawn at this size along their longer side)
+export const WORKING_RESOLUTION = 1000
 
 // Region detection parameters
 export const BOUNDARY_THRESHOLD = 128
@@ -11,10 +11,77 @@ export const MIN_REGION_SIZE = 100
 
 // Drawing behavior
 export const SIGNIFICANT_MOVEMENT_THRESHOLD = 2
+export const LONG_PRESS_MS = 600
+export const LONG_PRESS_TOLERANCE_PX = 10
+
+// Pressure and tilt response (pressure is normalized 0-1)
+export const DEFAULT_PRESSURE = 0.5
+export const MIN_PRESSURE_WIDTH_SCALE = 0.5
+export const MAX_PRESSURE_WIDTH_SCALE = 1.5
+export const MIN_PRESSURE_OPACITY = 0.35
+export const TILT_SHADING_START_DEGREES = 45
+export const TILT_WIDTH_BOOST = 1.5
+export const TILT_OPACITY_FALLOFF = 0.4
+
+// Stroke smoothing (stabilization 0 = raw input, closer to 1 = steadier but laggier)
+export const DEFAULT_STROKE_STABILIZATION = 0.3
+export const SMOOTHING_STEP_PX = 2
+
+// Simulated pressure for mouse input (canvas pixels per millisecond)
+export const MOUSE_MAX_SPEED = 3
+export const MIN_SIMULATED_PRESSURE = 0.2
+export const VELOCITY_PRESSURE_SMOOTHING = 0.3
+
+// Undo history limits (oldest entries are dropped first)
+export const HISTORY_MAX_DEPTH = 50
+export const HISTORY_MAX_BYTES = 64 * 1024 * 1024
+export const HISTORY_TILE_SIZE = 128
+
+// Time-lapse replay (pauses between actions are shortened to at most this long)
+export const REPLAY_MAX_GAP_MS = 300
+
+// Pinch-to-zoom (1 = whole page fits the view)
+export const MIN_ZOOM = 1
+export const MAX_ZOOM = 5
+
+// Stamps (stamp size = brush size x scale)
+export const STAMP_SIZE_SCALE = 4
+
+// Pattern fills (motifs repeat about this many times across a region, within the tile size limits)
+export const PATTERN_REPEATS = 6
+export const MIN_PATTERN_TILE = 16
+export const MAX_PATTERN_TILE = 96
+
+// Kaleidoscope symmetry (segment counts to cycle through, the first is the default)
+export const KALEIDOSCOPE_SEGMENTS = [6, 8, 4, 5] as const
+
+// Color by number (colors for automatically numbered pages)
+export const COLOR_BY_NUMBER_PALETTE = [
+  "#FF4081",
+  "#FFD700",
+  "#2196F3",
+  "#32CD32",
+  "#FF8C00",
+  "#9C27B0",
+]
+// Number label font size (scaled to the room around the label, in canvas pixels)
+export const MIN_NUMBER_FONT_SIZE = 14
+export const MAX_NUMBER_FONT_SIZE = 64
 
 // Layer lookup table sentinel value
 export const NO_LAYER_SENTINEL = 65535
 
+// ID of the freehand layer (region layers are numbered from 1)
+export const FREEHAND_LAYER_ID = 0
+
+// Layer compositing (separate dirty rects per frame before they are merged into one)
+export const MAX_DIRTY_RECTS = 8
+
+// High-DPI rendering (whole canvas pixels per page pixel; a page shown up to
+// this fraction of a step larger isn't worth the next step's memory)
+export const MAX_RENDER_SCALE = 3
+export const RENDER_SCALE_SLACK = 0.1
+
 // Performance monitoring
 export const FPS_LOG_INTERVAL_MS = 1000
 
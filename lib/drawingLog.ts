@@ -0,0 +1,332 @@
+/**
+ * Drawing Log
+ * Structured record of every drawing action - the source of truth for a drawing
+ *
+ * The pixel layers can always be rebuilt by replaying the log. Strokes store
+ * their raw input points and replay through the same smoother and renderer as
+ * live drawing, so a replayed drawing matches the original pixel for pixel.
+ */
+
+import {
+  drawStrokeWithClipping,
+  fillLayerRegion,
+  floodFillLayer,
+  floodFillLayerWithStyle,
+  resetLayer,
+  type DrawingLayer,
+} from "./layerGeneration"
+import {
+  getStrokeBounds,
+  renderStrokeDot,
+  renderStrokePath,
+  type BrushStyle,
+  type StrokePoint,
+} from "./strokeRenderer"
+import { createStrokeSmoother } from "./strokeSmoothing"
+import { hexToRgb } from "./canvasUtils"
+import { eraseLayer } from "./eraser"
+import { renderStamp } from "./stamps"
+import { createPatternPaint, type PatternFill } from "./patterns"
+import { FREEHAND_LAYER_ID } from "./constants"
+
+// "region" clips to one layer (stay within lines), "free" paints the freehand layer
+export type DrawingMode = "region" | "free"
+
+export interface ActionTarget {
+  mode: DrawingMode
+  layerId: number | null // Only set in region mode
+}
+
+export interface StrokeAction extends ActionTarget {
+  type: "stroke"
+  style: BrushStyle
+  stabilization: number
+  startsWithDot: boolean // False when the stroke resumes after leaving the canvas
+  points: StrokePoint[]
+  time: number
+}
+
+export interface FillAction extends ActionTarget {
+  type: "fill"
+  color: string
+  pattern?: PatternFill // Fill with a pattern or gradient of the color
+  x: number
+  y: number
+  time: number
+}
+
+// A sticker centered on a point (see lib/stamps)
+export interface StampAction extends ActionTarget {
+  type: "stamp"
+  stampId: string
+  color: string
+  x: number
+  y: number
+  size: number
+  time: number
+}
+
+export interface ClearAction {
+  type: "clear"
+  time: number
+}
+
+// Reset a single region back to blank
+export interface ClearRegionAction {
+  type: "clearRegion"
+  layerId: number
+  time: number
+}
+
+// Rewind the most recent (not already rewound) change to a single region
+export interface UndoRegionAction {
+  type: "undoRegion"
+  layerId: number
+  time: number
+}
+
+export type DrawingAction =
+  | StrokeAction
+  | FillAction
+  | StampAction
+  | ClearAction
+  | ClearRegionAction
+  | UndoRegionAction
+
+// One undo step can hold several actions (a stroke that leaves and re-enters the canvas)
+export type DrawingStep = DrawingAction[]
+
+export interface DrawingLog {
+  version: 1
+  width: number
+  height: number
+  steps: DrawingStep[]
+}
+
+/**
+ * The layers an action can change
+ */
+export function getActionLayers(layers: DrawingLayer[], action: DrawingAction): DrawingLayer[] {
+  return layers.filter((layer) => affectsLayer(action, layer.id))
+}
+
+/**
+ * The actions that currently make up one region's pixels, in order
+ * Region undos remove the latest change to their region instead of adding one
+ */
+export function getRegionActions(layerId: number, actions: DrawingAction[]): DrawingAction[] {
+  const regionActions: DrawingAction[] = []
+
+  for (const action of actions) {
+    if (action.type === "undoRegion") {
+      if (action.layerId === layerId) regionActions.pop()
+    } else if (affectsLayer(action, layerId)) {
+      regionActions.push(action)
+    }
+  }
+
+  return regionActions
+}
+
+function affectsLayer(action: DrawingAction, layerId: number): boolean {
+  if (action.type === "clear") return true
+
+  // Erasing takes away whatever shows under the eraser: everywhere in free mode,
+  // and in region mode the region plus the freehand drawing over it
+  if (action.type === "stroke" && action.style.isEraser) {
+    return action.mode === "free" || layerId === action.layerId || layerId === FREEHAND_LAYER_ID
+  }
+
+  if ((action.type === "stroke" || action.type === "stamp") && action.mode === "free") {
+    return layerId === FREEHAND_LAYER_ID
+  }
+  return action.layerId === layerId
+}
+
+/**
+ * Run a draw callback against an action's target
+ * Region mode clips to the target layer; free mode draws on the freehand layer
+ */
+export function drawOnTarget(
+  layers: DrawingLayer[],
+  target: ActionTarget,
+  draw: (ctx: CanvasRenderingContext2D) => void
+): void {
+  const layerId = target.mode === "region" ? target.layerId : FREEHAND_LAYER_ID
+  const layer = layers.find((l) => l.id === layerId)
+  if (!layer) return
+
+  if (target.mode === "region") {
+    drawStrokeWithClipping(layer.canvas, layer.ctx, layer.mask, draw)
+  } else {
+    layer.ctx.save()
+    draw(layer.ctx)
+    layer.ctx.restore()
+  }
+}
+
+/**
+ * Draw part of a stroke on its target: a committed path, or a single point as a dot
+ * Eraser strokes restore the blank layers under them instead of painting
+ */
+export function drawStrokeOnTarget(
+  layers: DrawingLayer[],
+  stroke: StrokeAction,
+  points: StrokePoint[]
+): void {
+  const draw = (ctx: CanvasRenderingContext2D) =>
+    points.length === 1
+      ? renderStrokeDot(ctx, points[0], stroke.style)
+      : renderStrokePath(ctx, points, stroke.style)
+
+  if (!stroke.style.isEraser) {
+    drawOnTarget(layers, stroke, draw)
+    return
+  }
+
+  // Region erasing stays inside the region, on the freehand layer too
+  const region = stroke.mode === "region" ? layers.find((l) => l.id === stroke.layerId) : null
+  if (region === undefined) return
+
+  const bounds = getStrokeBounds(points, stroke.style)
+  getActionLayers(layers, stroke).forEach((layer) => eraseLayer(layer, bounds, draw, region))
+}
+
+export interface StrokeReplay {
+  // Number of recorded points drawn so far
+  drawnPoints: () => number
+  // Draw recorded points up to (not including) the given index
+  advanceTo: (pointIndex: number) => void
+  // Draw all remaining points and the final tail
+  finish: () => void
+}
+
+/**
+ * Start rendering a recorded stroke incrementally, with the same call sequence
+ * as live drawing: begin (and dot), one committed path per added point, then the tail
+ */
+export function beginStrokeReplay(layers: DrawingLayer[], action: StrokeAction): StrokeReplay {
+  const smoother = createStrokeSmoother(action.stabilization)
+  const commit = (path: StrokePoint[]) => {
+    if (path.length < 2) return
+    drawStrokeOnTarget(layers, action, path)
+  }
+
+  let drawn = 0
+  let finished = false
+
+  const advanceTo = (pointIndex: number) => {
+    const end = Math.min(pointIndex, action.points.length)
+    for (; drawn < end; drawn++) {
+      const point = action.points[drawn]
+      if (drawn === 0) {
+        smoother.begin(point)
+        if (action.startsWithDot) {
+          drawStrokeOnTarget(layers, action, [point])
+        }
+      } else {
+        commit(smoother.add(point))
+      }
+    }
+  }
+
+  return {
+    drawnPoints: () => drawn,
+    advanceTo,
+    finish: () => {
+      if (finished) return
+      advanceTo(action.points.length)
+      commit(smoother.end())
+      finished = true
+    },
+  }
+}
+
+/**
+ * Apply a fill exactly as the bucket tool does
+ */
+function renderFillAction(layers: DrawingLayer[], action: FillAction): void {
+  const layer = layers.find((l) => l.id === action.layerId)
+  if (!layer) return
+
+  // Free fills stop at freehand lines too, as when they were drawn on the region layers
+  const freehand = layers.find((l) => l.id === FREEHAND_LAYER_ID)
+
+  if (action.pattern) {
+    const paint = createPatternPaint(layer.ctx, action.pattern, action.color)
+    if (action.mode === "region") {
+      fillLayerRegion(layer, paint)
+    } else {
+      floodFillLayerWithStyle(layer, action.x, action.y, paint, undefined, freehand)
+    }
+  } else if (action.mode === "region") {
+    fillLayerRegion(layer, action.color)
+  } else {
+    floodFillLayer(layer, action.x, action.y, hexToRgb(action.color), undefined, freehand)
+  }
+}
+
+/**
+ * Rebuild one region from blank without its most recent change
+ * (the actions before the undo are needed to know what that change was)
+ */
+function renderUndoRegionAction(
+  layers: DrawingLayer[],
+  action: UndoRegionAction,
+  previous: DrawingAction[]
+): void {
+  const layer = layers.find((l) => l.id === action.layerId)
+  if (!layer) return
+
+  resetLayer(layer)
+  getRegionActions(action.layerId, [...previous, action]).forEach((regionAction) =>
+    renderAction([layer], regionAction)
+  )
+}
+
+/**
+ * Render a single action onto the layers
+ * @param previous - Every action logged before this one (only region undos need it)
+ */
+export function renderAction(
+  layers: DrawingLayer[],
+  action: DrawingAction,
+  previous: DrawingAction[] = []
+): void {
+  switch (action.type) {
+    case "stroke":
+      beginStrokeReplay(layers, action).finish()
+      break
+    case "fill":
+      renderFillAction(layers, action)
+      break
+    case "stamp":
+      drawOnTarget(layers, action, (ctx) =>
+        renderStamp(ctx, action.stampId, action.x, action.y, action.size, action.color)
+      )
+      break
+    case "clear":
+      layers.forEach(resetLayer)
+      break
+    case "clearRegion":
+      layers.filter((layer) => layer.id === action.layerId).forEach(resetLayer)
+      break
+    case "undoRegion":
+      renderUndoRegionAction(layers, action, previous)
+      break
+  }
+}
+
+/**
+ * Rebuild every layer from scratch by replaying the log
+ */
+export function renderDrawingLog(layers: DrawingLayer[], steps: DrawingStep[]): void {
+  layers.forEach(resetLayer)
+
+  // The actions rendered so far grow as one list (copying them per action is quadratic)
+  const previous: DrawingAction[] = []
+  steps.flat().forEach((action) => {
+    renderAction(layers, action, previous)
+    previous.push(action)
+  })
+}
@@ -0,0 +1,141 @@
+/**
+ * Drawing Replay
+ * Time-lapse playback of a drawing log
+ *
+ * Actions are laid out on a timeline using their recorded timestamps, with long
+ * pauses between actions shortened. Playback renders through the drawing log's
+ * own replay path, so the final frame matches the live drawing pixel for pixel.
+ */
+
+import {
+  beginStrokeReplay,
+  renderAction,
+  type DrawingAction,
+  type DrawingStep,
+  type StrokeReplay,
+} from "./drawingLog"
+import { resetLayer, type DrawingLayer } from "./layerGeneration"
+import { REPLAY_MAX_GAP_MS } from "./constants"
+
+interface TimedAction {
+  action: DrawingAction
+  start: number
+  end: number
+  pointTimes: number[] // Timeline time of each stroke point (empty for other actions)
+}
+
+export interface ReplayTimeline {
+  actions: TimedAction[]
+  duration: number
+}
+
+export interface ReplayPlayer {
+  duration: number
+  // Render the drawing as it looked at a timeline position (ms)
+  seek: (time: number) => void
+}
+
+/**
+ * Lay the log's actions out on a single timeline
+ */
+export function createReplayTimeline(
+  steps: DrawingStep[],
+  maxGap = REPLAY_MAX_GAP_MS
+): ReplayTimeline {
+  const actions: TimedAction[] = []
+  let cursor = 0
+  let lastRecordedTime: number | null = null
+
+  steps.flat().forEach((action) => {
+    const recordedStart = action.type === "stroke" ? action.points[0]?.time ?? action.time : action.time
+
+    // Shorten (but keep) pauses; out-of-order timestamps count as no pause
+    if (lastRecordedTime !== null) {
+      cursor += Math.min(Math.max(recordedStart - lastRecordedTime, 0), maxGap)
+    }
+
+    const start = cursor
+    let pointTimes: number[] = []
+    if (action.type === "stroke") {
+      pointTimes = action.points.map((point) => start + Math.max(point.time - recordedStart, 0))
+      cursor = pointTimes[pointTimes.length - 1] ?? start
+      lastRecordedTime = action.points[action.points.length - 1]?.time ?? recordedStart
+    } else {
+      lastRecordedTime = recordedStart
+    }
+
+    actions.push({ action, start, end: cursor, pointTimes })
+  })
+
+  return { actions, duration: cursor }
+}
+
+/**
+ * Create a player that renders a timeline onto the layers
+ * Seeking forward draws incrementally; seeking backward redraws from blank
+ */
+export function createReplayPlayer(
+  layers: DrawingLayer[],
+  timeline: ReplayTimeline
+): ReplayPlayer {
+  // Index of the next action to start, the actions started so far and the
+  // stroke currently being drawn
+  let nextIndex = 0
+  let started: DrawingAction[] = []
+  let activeStroke: { replay: StrokeReplay; timed: TimedAction } | null = null
+  let currentTime = 0
+
+  const reset = () => {
+    layers.forEach(resetLayer)
+    nextIndex = 0
+    started = []
+    activeStroke = null
+    currentTime = 0
+  }
+
+  const seek = (time: number) => {
+    if (time < currentTime) reset()
+    currentTime = time
+
+    // Finish the stroke in progress if its time has passed
+    if (activeStroke) {
+      if (activeStroke.timed.end <= time) {
+        activeStroke.replay.finish()
+        activeStroke = null
+      } else {
+        activeStroke.replay.advanceTo(countPointsUntil(activeStroke.timed, time))
+        return
+      }
+    }
+
+    while (nextIndex < timeline.actions.length) {
+      const timed = timeline.actions[nextIndex]
+      if (timed.start > time) break
+      nextIndex++
+
+      if (timed.action.type === "stroke" && timed.end > time) {
+        // Stroke still in progress - draw the part that has happened so far
+        const replay = beginStrokeReplay(layers, timed.action)
+        replay.advanceTo(countPointsUntil(timed, time))
+        activeStroke = { replay, timed }
+        started.push(timed.action)
+        return
+      }
+
+      renderAction(layers, timed.action, started)
+      started.push(timed.action)
+    }
+  }
+
+  reset()
+  return { duration: timeline.duration, seek }
+}
+
+/**
+ * Number of stroke points whose timeline time has been reached
+ */
+function countPointsUntil(timed: TimedAction, time: number): number {
+  let count = 0
+  while (count < timed.pointTimes.length && timed.pointTimes[count] <= time) count++
+  return count
+}
@@ -0,0 +1,100 @@
+/**
+ * Eraser
+ * Restores the blank page under an eraser stroke instead of painting white
+ *
+ * A layer's blank state is its mask: white inside the region, transparent
+ * everywhere else. The eraser draws its stroke shape on a scratch canvas,
+ * cuts that shape out of the layer (destination-out) and adds the mask pixels
+ * under it back in (lighter). Where the shape is only partly opaque, as on the
+ * soft eraser's feathered edge, the result blends between the drawing and the
+ * blank mask.
+ *
+ * Region erasing is clipped to the region's mask, on the region's own layer and
+ * on the freehand layer above it.
+ */
+
+import { drawScratch, getScratchContext } from "./brushes/brush"
+import { getBlankPixels, getLayerBounds, type DrawingLayer } from "./layerGeneration"
+import { intersectRects, type PixelRect } from "./pixelRect"
+
+/**
+ * A scratch canvas holding a layer's blank pixels under a rect, cut to a shape
+ * (null when the layer is elsewhere on the page)
+ */
+function getBlankUnderShape(
+  layer: DrawingLayer,
+  shape: CanvasRenderingContext2D,
+  rect: PixelRect,
+  index: number,
+  scale: number
+): CanvasRenderingContext2D | null {
+  const area = intersectRects(rect, getLayerBounds(layer))
+  if (!area) return null
+
+  const blank = getScratchContext(rect, index, scale)
+  if (!blank) return null
+
+  // putImageData ignores the transform, so place the blank pixels (read in the
+  // layer's canvas pixels) relative to the scratch origin
+  blank.putImageData(
+    getBlankPixels(
+      layer,
+      (area.x - layer.x) * scale,
+      (area.y - layer.y) * scale,
+      area.width * scale,
+      area.height * scale
+    ),
+    (area.x - rect.x) * scale,
+    (area.y - rect.y) * scale
+  )
+  blank.globalCompositeOperation = "destination-in"
+  drawScratch(blank, shape, rect)
+  return blank
+}
+
+/**
+ * Erase a shape from a layer, restoring the layer's mask pixels under it
+ * @param clip - The layer whose region the erasing stays inside (null erases the whole shape)
+ */
+export function eraseLayer(
+  layer: DrawingLayer,
+  bounds: PixelRect,
+  drawShape: (ctx: CanvasRenderingContext2D) => void,
+  clip: DrawingLayer | null
+): void {
+  // Scratch canvases and putImageData work in whole pixels
+  const x = Math.floor(bounds.x)
+  const y = Math.floor(bounds.y)
+  const rect = {
+    x,
+    y,
+    width: Math.ceil(bounds.x + bounds.width) - x,
+    height: Math.ceil(bounds.y + bounds.height) - y,
+  }
+  if (rect.width <= 0 || rect.height <= 0) return
+
+  // The scratch canvases match the layer's resolution
+  const { scale } = layer
+  const shape = getScratchContext(rect, 0, scale)
+  if (!shape) return
+  drawShape(shape)
+
+  // The mask pixels under the shape, and for clipped erasing the part of the
+  // shape inside the clipping region (its mask's opaque pixels)
+  const blank = getBlankUnderShape(layer, shape, rect, 1, scale)
+  const cut = !clip
+    ? shape
+    : clip === layer
+      ? blank
+      : getBlankUnderShape(clip, shape, rect, 2, scale)
+  if (!cut) return
+
+  layer.ctx.save()
+  layer.ctx.globalCompositeOperation = "destination-out"
+  drawScratch(layer.ctx, cut, rect)
+  if (blank) {
+    layer.ctx.globalCompositeOperation = "lighter"
+    drawScratch(layer.ctx, blank, rect)
+  }
+  layer.ctx.restore()
+}
@@ -0,0 +1,114 @@
+import { describe, expect, it } from "vitest"
+import { createHistory } from "./history"
+import type { DrawingLayer } from "./layerGeneration"
+
+// Node has no canvas: a layer whose context only supports the raw pixel access the history uses
+function createLayer(size: number): DrawingLayer {
+  const pixels = new ImageData(size, size)
+  const ctx = {
+    getImageData: (x: number, y: number, width: number, height: number) => {
+      const tile = new ImageData(width, height)
+      for (let row = 0; row < height; row++) {
+        const start = ((y + row) * size + x) * 4
+        tile.data.set(pixels.data.subarray(start, start + width * 4), row * width * 4)
+      }
+      return tile
+    },
+    putImageData: (tile: ImageData, x: number, y: number) => {
+      for (let row = 0; row < tile.height; row++) {
+        const start = row * tile.width * 4
+        pixels.data.set(tile.data.subarray(start, start + tile.width * 4), ((y + row) * size + x) * 4)
+      }
+    },
+  }
+
+  return {
+    id: 1,
+    x: 0,
+    y: 0,
+    scale: 1,
+    canvas: { width: size, height: size } as HTMLCanvasElement,
+    ctx: ctx as unknown as CanvasRenderingContext2D,
+    mask: new ImageData(size, size), // Blank is transparent
+  }
+}
+
+// Paint one opaque pixel the way a draw would, inside an open entry
+function paint(layer: DrawingLayer, x: number, y: number) {
+  const pixel = new ImageData(1, 1)
+  pixel.data.fill(255)
+  layer.ctx.putImageData(pixel, x, y)
+}
+
+function isPainted(layer: DrawingLayer, x: number, y: number): boolean {
+  return layer.ctx.getImageData(x, y, 1, 1).data[3] === 255
+}
+
+describe("history", () => {
+  const rect = { x: 0, y: 0, width: 1, height: 1 }
+
+  it("keeps redo when a step is cancelled (undo, long press, redo)", () => {
+    const layer = createLayer(4)
+    const history = createHistory({ tileSize: 2 })
+
+    history.begin()
+    history.touch(layer, rect)
+    paint(layer, 0, 0)
+    history.commit()
+    expect(history.undo()).toBe("restored")
+    expect(isPainted(layer, 0, 0)).toBe(false)
+
+    // A long press (or pinch, or palm takeover) opens a step, draws its dot, then takes it back
+    history.begin()
+    history.touch(layer, rect)
+    paint(layer, 0, 0)
+    history.cancel()
+    expect(isPainted(layer, 0, 0)).toBe(false)
+
+    expect(history.canRedo()).toBe(true)
+    expect(history.redo()).toBe("restored")
+    expect(isPainted(layer, 0, 0)).toBe(true)
+  })
+
+  it("clears redo once a new step commits", () => {
+    const layer = createLayer(4)
+    const history = createHistory({ tileSize: 2 })
+
+    history.begin()
+    history.touch(layer, rect)
+    paint(layer, 0, 0)
+    history.commit()
+    history.undo()
+
+    history.begin()
+    history.touch(layer, { x: 3, y: 3, width: 1, height: 1 })
+    paint(layer, 3, 3)
+    expect(history.canRedo()).toBe(true)
+    history.commit()
+    expect(history.canRedo()).toBe(false)
+  })
+  it("leaves steps from before a scale change to be replayed", () => {
+    const layer = createLayer(4)
+    const history = createHistory({ tileSize: 2 })
+
+    history.begin()
+    history.touch(layer, rect)
+    paint(layer, 0, 0)
+    history.commit()
+    history.dropTiles()
+
+    // A step drawn after the change still has its tiles
+    history.begin()
+    history.touch(layer, { x: 3, y: 3, width: 1, height: 1 })
+    paint(layer, 3, 3)
+    history.commit()
+
+    expect(history.undo()).toBe("restored")
+    expect(isPainted(layer, 3, 3)).toBe(false)
+    expect(history.undo()).toBe("replay")
+    expect(isPainted(layer, 0, 0)).toBe(true) // Untouched: the caller re-renders
+    expect(history.redo()).toBe("replay")
+    expect(history.redo()).toBe("restored")
+    expect(isPainted(layer, 3, 3)).toBe(true)
+  })
+})
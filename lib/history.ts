@@ -0,0 +1,256 @@
+/**
+ * Undo History
+ * Memory-efficient undo/redo that stores only the layer tiles an action changed
+ *
+ * Before anything is drawn, the tiles it will cover are snapshotted once per
+ * entry. Tiles that are still blank (identical to the layer's mask) are stored
+ * as null and cost nothing, and tiles the action didn't actually change are
+ * dropped when the entry is committed. The stack is bounded by both depth and
+ * total bytes; the oldest entries are dropped first.
+ *
+ * Tiles only fit the render scale they were read at. When the layers change
+ * scale their tiles are dropped, and undoing or redoing those entries is left to
+ * the caller, which replays the drawing log at the new scale.
+ */
+
+import { getBlankPixels, type DrawingLayer } from "./layerGeneration"
+import type { PixelRect } from "./pixelRect"
+import { HISTORY_MAX_DEPTH, HISTORY_MAX_BYTES, HISTORY_TILE_SIZE } from "./constants"
+
+// Tiles are in canvas pixels of their layer (layers are cropped to their region
+// and rendered at their scale, see layerGeneration)
+interface TilePatch {
+  layer: DrawingLayer
+  x: number
+  y: number
+  width: number
+  height: number
+  before: ImageData | null // null = blank (the layer's mask, scaled up)
+  after: ImageData | null // Captured on undo for redo; null = blank
+}
+
+interface HistoryEntry {
+  patches: TilePatch[] | null // null = from before a scale change, replayed from the log
+  bytes: number
+}
+
+// How an undo or redo was applied: the history restored its tiles, or the caller
+// has to replay the drawing log (entries from before a scale change)
+export type HistoryApplied = "restored" | "replay"
+
+export interface HistoryOptions {
+  maxDepth: number
+  maxBytes: number
+  tileSize: number
+}
+
+export interface History {
+  // Open a new entry (redo stays available until it commits)
+  begin: () => void
+  // Snapshot the tiles of a layer that an upcoming draw may cover
+  touch: (layer: DrawingLayer, rect: PixelRect) => void
+  // Close the open entry, clear redo and enforce the limits
+  commit: () => void
+  // Discard the open entry, restoring every tile it touched (redo is kept)
+  cancel: () => void
+  undo: () => HistoryApplied | null
+  redo: () => HistoryApplied | null
+  canUndo: () => boolean
+  canRedo: () => boolean
+  // Forget every stored tile after the layers change render scale
+  dropTiles: () => void
+  reset: () => void
+}
+
+/**
+ * Read a tile, returning null if it is identical to the layer's blank mask
+ */
+function readTile(layer: DrawingLayer, x: number, y: number, width: number, height: number): ImageData | null {
+  const tile = layer.ctx.getImageData(x, y, width, height)
+  const { mask, scale } = layer
+
+  // Every mask pixel covers scale x scale canvas pixels
+  for (let row = 0; row < height; row++) {
+    const maskRow = Math.floor((y + row) / scale) * mask.width
+    for (let column = 0; column < width; column++) {
+      const maskOffset = (maskRow + Math.floor((x + column) / scale)) * 4
+      const tileOffset = (row * width + column) * 4
+      for (let i = 0; i < 4; i++) {
+        if (tile.data[tileOffset + i] !== mask.data[maskOffset + i]) return tile
+      }
+    }
+  }
+
+  return null
+}
+
+/**
+ * Write a tile back, restoring blank tiles from the mask
+ */
+function writeTile(patch: TilePatch, data: ImageData | null): void {
+  const { layer, x, y, width, height } = patch
+  layer.ctx.putImageData(data ?? getBlankPixels(layer, x, y, width, height), x, y)
+}
+
+function tilesEqual(a: ImageData | null, b: ImageData | null): boolean {
+  if (a === null || b === null) return a === b
+  for (let i = 0; i < a.data.length; i++) {
+    if (a.data[i] !== b.data[i]) return false
+  }
+  return true
+}
+
+function entryBytes(entry: HistoryEntry): number {
+  return (entry.patches ?? []).reduce(
+    (sum, patch) => sum + (patch.before?.data.length ?? 0) + (patch.after?.data.length ?? 0),
+    0
+  )
+}
+
+/**
+ * Create an undo history with the given limits
+ */
+export function createHistory(options: Partial<HistoryOptions> = {}): History {
+  const maxDepth = options.maxDepth ?? HISTORY_MAX_DEPTH
+  const maxBytes = options.maxBytes ?? HISTORY_MAX_BYTES
+  const tileSize = options.tileSize ?? HISTORY_TILE_SIZE
+
+  let undoStack: HistoryEntry[] = []
+  let redoStack: HistoryEntry[] = []
+  let pending: (HistoryEntry & { patches: TilePatch[] }) | null = null
+  // Tiles already captured by the pending entry, per layer
+  let captured = new Map<DrawingLayer, Set<number>>()
+
+  const totalBytes = () =>
+    [...undoStack, ...redoStack].reduce((sum, entry) => sum + entry.bytes, 0)
+
+  // Drop the oldest undo entries until within limits (always keep the newest)
+  const enforceLimits = () => {
+    let bytes = totalBytes()
+    while (undoStack.length > 1 && (undoStack.length > maxDepth || bytes > maxBytes)) {
+      bytes -= undoStack.shift()!.bytes
+    }
+  }
+
+  return {
+    begin: () => {
+      pending = { patches: [], bytes: 0 }
+      captured = new Map()
+    },
+
+    touch: (layer, rect) => {
+      if (!pending) return
+
+      // Move into the layer's canvas pixels, clamp to the layer and convert to a tile range
+      const { width, height } = layer.canvas
+      const { scale } = layer
+      const left = Math.max(0, Math.floor((rect.x - layer.x) * scale))
+      const top = Math.max(0, Math.floor((rect.y - layer.y) * scale))
+      const right = Math.min(width, Math.ceil((rect.x + rect.width - layer.x) * scale))
+      const bottom = Math.min(height, Math.ceil((rect.y + rect.height - layer.y) * scale))
+      if (right <= left || bottom <= top) return
+
+      const columns = Math.ceil(width / tileSize)
+      let layerTiles = captured.get(layer)
+      if (!layerTiles) {
+        layerTiles = new Set()
+        captured.set(layer, layerTiles)
+      }
+
+      for (let ty = Math.floor(top / tileSize); ty * tileSize < bottom; ty++) {
+        for (let tx = Math.floor(left / tileSize); tx * tileSize < right; tx++) {
+          const tileIndex = ty * columns + tx
+          if (layerTiles.has(tileIndex)) continue
+          layerTiles.add(tileIndex)
+
+          const x = tx * tileSize
+          const y = ty * tileSize
+          const tileWidth = Math.min(tileSize, width - x)
+          const tileHeight = Math.min(tileSize, height - y)
+          pending.patches.push({
+            layer,
+            x,
+            y,
+            width: tileWidth,
+            height: tileHeight,
+            before: readTile(layer, x, y, tileWidth, tileHeight),
+            after: null,
+          })
+        }
+      }
+    },
+
+    commit: () => {
+      if (!pending) return
+
+      // Keep only tiles the action actually changed
+      const entry = pending
+      entry.patches = entry.patches.filter((patch) => {
+        const current = readTile(patch.layer, patch.x, patch.y, patch.width, patch.height)
+        return !tilesEqual(patch.before, current)
+      })
+      entry.bytes = entryBytes(entry)
+
+      // Entries are kept even when empty so they stay aligned with the drawing log
+      undoStack.push(entry)
+      redoStack = []
+      pending = null
+      captured = new Map()
+      enforceLimits()
+    },
+
+    cancel: () => {
+      pending?.patches.forEach((patch) => writeTile(patch, patch.before))
+      pending = null
+      captured = new Map()
+    },
+
+    undo: () => {
+      const entry = undoStack.pop()
+      if (!entry) return null
+      redoStack.push(entry)
+      if (!entry.patches) return "replay"
+
+      // Capture the current pixels for redo, then restore the originals
+      entry.patches.forEach((patch) => {
+        patch.after = readTile(patch.layer, patch.x, patch.y, patch.width, patch.height)
+        writeTile(patch, patch.before)
+      })
+      entry.bytes = entryBytes(entry)
+      return "restored"
+    },
+
+    redo: () => {
+      const entry = redoStack.pop()
+      if (!entry) return null
+      undoStack.push(entry)
+      enforceLimits()
+      if (!entry.patches) return "replay"
+
+      // Re-apply the action's pixels; they aren't needed again until the next undo
+      entry.patches.forEach((patch) => {
+        writeTile(patch, patch.after)
+        patch.after = null
+      })
+      entry.bytes = entryBytes(entry)
+      return "restored"
+    },
+
+    canUndo: () => undoStack.length > 0,
+    canRedo: () => redoStack.length > 0,
+
+    dropTiles: () => {
+      for (const entry of [...undoStack, ...redoStack]) {
+        entry.patches = null
+        entry.bytes = 0
+      }
+    },
+
+    reset: () => {
+      undoStack = []
+      redoStack = []
+      pending = null
+      captured = new Map()
+    },
+  }
+}
@@ -3,11 +3,28 @@
  * Load images and extract pixel data without canvas rendering
  */
 
+/**
+ * The size of an image scaled so its longer side is longSide pixels
+ * (keeps the aspect ratio; each side is at least 1 pixel)
+ */
+export function getScaledSize(
+  width: number,
+  height: number,
+  longSide: number
+): { width: number; height: number } {
+  const scale = longSide / Math.max(width, height);
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
 /**
  * Load an image and extract its ImageData
  * This creates a temporary canvas to get pixel data but doesn't rely on rendering timing
+ * @param longSide - Scale the image so its longer side is this many pixels (natural size when omitted)
  */
-export async function loadImageData(imagePath: string): Promise<ImageData> {
+export async function loadImageData(imagePath: string, longSide?: number): Promise<ImageData> {
   return new Promise((resolve, reject) => {
     const img = new Image();
 
@@ -21,16 +38,21 @@ export async function loadImageData(imagePath: string): Promise<ImageData> {
         return;
       }
 
-      // Set canvas size to image size
-      canvas.width = img.naturalWidth || img.width;
-      canvas.height = img.naturalHeight || img.height;
+      // Set canvas size to image size (or the requested scale of it)
+      const naturalWidth = img.naturalWidth || img.width;
+      const naturalHeight = img.naturalHeight || img.height;
+      const size = longSide
+        ? getScaledSize(naturalWidth, naturalHeight, longSide)
+        : { width: naturalWidth, height: naturalHeight };
+      canvas.width = size.width;
+      canvas.height = size.height;
 
       // Fill with white background first (for transparent PNGs)
       ctx.fillStyle = "white";
       ctx.fillRect(0, 0, canvas.width, canvas.height);
 
       // Draw image on top of white background
-      ctx.drawImage(img, 0, 0);
+      ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
 
       // Extract pixel data
       const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
@@ -47,6 +69,18 @@ export async function loadImageData(imagePath: string): Promise<ImageData> {
   });
 }
 
+/**
+ * Load an image as an ImageBitmap
+ * Decoded off the main thread, and can be transferred to a worker
+ */
+export async function loadImageBitmap(imagePath: string): Promise<ImageBitmap> {
+  const response = await fetch(imagePath);
+  if (!response.ok) {
+    throw new Error(`Failed to load image: ${imagePath}`);
+  }
+  return createImageBitmap(await response.blob());
+}
+
 /**
  * Get image dimensions without loading full pixel data
  */
@@ -0,0 +1,70 @@
+/**
+ * Image Worker
+ * Runs region detection off the main thread, so the loading screen stays responsive
+ *
+ * Takes the page as an ImageBitmap (decoded off the main thread) or as
+ * ImageData, reports progress while it works and transfers the region map
+ * (region IDs, layer lookup table and bounds) back without copying. Bitmaps
+ * are scaled to the working resolution first; ImageData arrives at it already.
+ */
+
+import { detectRegions, getRegionMapTransferables, type RegionMap } from "./regionDetection"
+import { getScaledSize } from "./imageLoader"
+import { BOUNDARY_THRESHOLD, MIN_REGION_SIZE, WORKING_RESOLUTION } from "./constants"
+
+export interface ImageWorkerRequest {
+  image: ImageBitmap | ImageData
+  gapSize: number // Widest outline gap to bridge (0 = off)
+}
+
+export type ImageWorkerResponse =
+  | { type: "progress"; progress: number }
+  | { type: "done"; regionMap: RegionMap }
+  | { type: "error"; message: string }
+
+// Only report progress in steps of this size (one message per row would flood the channel)
+const PROGRESS_STEP = 0.01
+
+/**
+ * The pixels of a bitmap at the working resolution, flattened onto white
+ * (pages may have transparent backgrounds)
+ */
+function getBitmapImageData(bitmap: ImageBitmap): ImageData {
+  const { width, height } = getScaledSize(bitmap.width, bitmap.height, WORKING_RESOLUTION)
+  const canvas = new OffscreenCanvas(width, height)
+  const ctx = canvas.getContext("2d")
+  if (!ctx) throw new Error("Could not get canvas context")
+
+  ctx.fillStyle = "white"
+  ctx.fillRect(0, 0, width, height)
+  ctx.drawImage(bitmap, 0, 0, width, height)
+  bitmap.close()
+  return ctx.getImageData(0, 0, canvas.width, canvas.height)
+}
+
+addEventListener("message", (event: MessageEvent<ImageWorkerRequest>) => {
+  const respond = (response: ImageWorkerResponse, transfer: Transferable[] = []) =>
+    postMessage(response, { transfer })
+
+  try {
+    const { image, gapSize } = event.data
+    const imageData = image instanceof ImageData ? image : getBitmapImageData(image)
+
+    let reported = 0
+    const regionMap = detectRegions(
+      imageData,
+      BOUNDARY_THRESHOLD,
+      MIN_REGION_SIZE,
+      gapSize,
+      (progress) => {
+        if (progress - reported < PROGRESS_STEP) return
+        reported = progress
+        respond({ type: "progress", progress })
+      }
+    )
+
+    respond({ type: "done", regionMap }, getRegionMapTransferables(regionMap))
+  } catch (error) {
+    respond({ type: "error", message: error instanceof Error ? error.message : String(error) })
+  }
+})
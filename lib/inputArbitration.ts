@@ -0,0 +1,103 @@
+/**
+ * Input Arbitration
+ * Decides which of the contacts on the screen is allowed to draw
+ *
+ * Every contact is tracked by a key made from its input source and id, so the
+ * same physical touch reported by both pointer events and Safari's touch
+ * fallback is recognized instead of being debounced by time. Only one contact
+ * draws at a time: a pen always wins over touches (a resting palm), touches
+ * that land while a pen is down are ignored, and in pencil-only mode touches
+ * never draw at all. A contact that was ignored stays ignored until it lifts.
+ */
+
+export type InputSource = "pointer" | "touch"
+
+export type ContactKey = `${InputSource}:${number}`
+
+// "takeover" means the contact draws, and the stroke of the one it replaced must be undone
+export type PressDecision = "draw" | "takeover" | "ignore"
+
+interface Contact {
+  source: InputSource
+  pointerType: string
+}
+
+export interface InputArbiter {
+  // A contact touched down: decide whether it draws
+  press: (key: ContactKey, pointerType: string, pencilOnly: boolean) => PressDecision
+  // A contact lifted: returns whether it was the drawing contact
+  release: (key: ContactKey) => boolean
+  // Whether this contact is the one drawing
+  isDrawing: (key: ContactKey) => boolean
+  // Whether a pen is currently touching the screen
+  isPenDown: () => boolean
+  // Whether touches on screen are already reported by pointer events
+  // (the touch fallback events for them are duplicates)
+  hasPointerTouches: () => boolean
+  // Stop the current contact from drawing (e.g. when a pinch takes over)
+  yieldDrawing: () => void
+}
+
+/**
+ * Build the key of a contact from its source and id
+ */
+export function getContactKey(source: InputSource, id: number): ContactKey {
+  return `${source}:${id}`
+}
+
+/**
+ * Create an input arbiter
+ */
+export function createInputArbiter(): InputArbiter {
+  const contacts = new Map<ContactKey, Contact>()
+  let drawing: ContactKey | null = null
+
+  const getDrawingType = () => (drawing ? contacts.get(drawing)?.pointerType ?? null : null)
+
+  return {
+    press: (key, pointerType, pencilOnly) => {
+      // A contact already on screen keeps its earlier decision
+      if (contacts.has(key)) return drawing === key ? "draw" : "ignore"
+
+      const source: InputSource = key.startsWith("touch") ? "touch" : "pointer"
+      contacts.set(key, { source, pointerType })
+
+      if (pointerType === "touch" && pencilOnly) return "ignore"
+
+      const drawingType = getDrawingType()
+      if (drawingType === null) {
+        drawing = key
+        return "draw"
+      }
+
+      // The pen replaces a palm that landed first
+      if (pointerType === "pen" && drawingType === "touch") {
+        drawing = key
+        return "takeover"
+      }
+
+      return "ignore"
+    },
+
+    release: (key) => {
+      contacts.delete(key)
+      if (drawing !== key) return false
+      drawing = null
+      return true
+    },
+
+    isDrawing: (key) => drawing === key,
+
+    isPenDown: () =>
+      Array.from(contacts.values()).some((contact) => contact.pointerType === "pen"),
+
+    hasPointerTouches: () =>
+      Array.from(contacts.values()).some(
+        (contact) => contact.source === "pointer" && contact.pointerType !== "mouse"
+      ),
+
+    yieldDrawing: () => {
+      drawing = null
+    },
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Layer Compositor
+ * Shows all drawing layers on one visible canvas, redrawing only what changed
+ *
+ * Layers stay off the DOM. Whoever draws on a layer marks the page area it
+ * changed as dirty, and once per animation frame the compositor clears those
+ * areas of the display canvas and draws every layer overlapping them back in,
+ * in layer order. The browser then has a single canvas to composite instead of
+ * one per region.
+ *
+ * The display canvas has the same scale as the layers, so dirty rects (whole
+ * page pixels) cover whole canvas pixels and layers are copied without resampling.
+ */
+
+import { getLayerBounds, type DrawingLayer } from "./layerGeneration"
+import { intersectRects, unionRects, type PixelRect } from "./pixelRect"
+import { MAX_DIRTY_RECTS } from "./constants"
+
+export interface LayerCompositor {
+  // Mark part of the page as changed (the whole page when no rect is given)
+  invalidate: (rect?: PixelRect) => void
+  // Stop compositing and drop any pending frame
+  dispose: () => void
+}
+
+// Time a frame's compositing took and how many pixels it redrew (for profiling)
+export type CompositeCallback = (ms: number, pixels: number) => void
+
+/**
+ * Composite a set of layers onto a display canvas covering the page at the layers' scale
+ * The whole page is drawn on the first frame
+ */
+export function createLayerCompositor(
+  display: HTMLCanvasElement,
+  layers: DrawingLayer[],
+  scale: number,
+  onComposite?: CompositeCallback
+): LayerCompositor {
+  const ctx = display.getContext("2d")
+  ctx?.setTransform(scale, 0, 0, scale, 0, 0)
+  const page = { x: 0, y: 0, width: display.width / scale, height: display.height / scale }
+  let dirty: PixelRect[] = []
+  let frame: number | null = null
+
+  const composite = () => {
+    frame = null
+    if (!ctx) return
+
+    const start = onComposite ? performance.now() : 0
+    let pixels = 0
+    const rects = dirty
+    dirty = []
+
+    for (const rect of rects) {
+      ctx.clearRect(rect.x, rect.y, rect.width, rect.height)
+      for (const layer of layers) {
+        const bounds = getLayerBounds(layer)
+        const area = intersectRects(rect, bounds)
+        if (!area) continue
+
+        ctx.drawImage(
+          layer.canvas,
+          (area.x - bounds.x) * layer.scale,
+          (area.y - bounds.y) * layer.scale,
+          area.width * layer.scale,
+          area.height * layer.scale,
+          area.x,
+          area.y,
+          area.width,
+          area.height
+        )
+      }
+      pixels += rect.width * rect.height
+    }
+
+    onComposite?.(performance.now() - start, pixels)
+  }
+
+  return {
+    invalidate: (rect = page) => {
+      // Whole pixels only, clamped to the page
+      const x = Math.floor(rect.x)
+      const y = Math.floor(rect.y)
+      const area = intersectRects(
+        { x, y, width: Math.ceil(rect.x + rect.width) - x, height: Math.ceil(rect.y + rect.height) - y },
+        page
+      )
+      if (!area) return
+
+      // Merge with an overlapping dirty rect, or with everything when there are too many
+      const overlapping = dirty.findIndex((other) => intersectRects(other, area))
+      if (overlapping >= 0) {
+        dirty[overlapping] = unionRects(dirty[overlapping], area)
+      } else if (dirty.length >= MAX_DIRTY_RECTS) {
+        dirty = [dirty.reduce(unionRects, area)]
+      } else {
+        dirty.push(area)
+      }
+
+      if (frame === null) frame = requestAnimationFrame(composite)
+    },
+
+    dispose: () => {
+      if (frame !== null) cancelAnimationFrame(frame)
+      frame = null
+      dirty = []
+    },
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest"
+import { getFillArea, type DrawingLayer } from "./layerGeneration"
+
+const SIZE = 10
+const EDGE = 5 // The region covers the columns left of this one
+
+// A layer whose region is the left half of its box (only the mask matters here)
+function createLayer(): DrawingLayer {
+  const mask = new ImageData(SIZE, SIZE)
+  for (let y = 0; y < SIZE; y++) {
+    for (let x = 0; x < EDGE; x++) mask.data.fill(255, (y * SIZE + x) * 4, (y * SIZE + x + 1) * 4)
+  }
+  return { id: 1, x: 0, y: 0, scale: 1, mask } as DrawingLayer
+}
+
+// The blank region with a black freehand line over it along one row, running past the region
+function withFreehandLine(layer: DrawingLayer, row: number): ImageData {
+  const pixels = new ImageData(new Uint8ClampedArray(layer.mask.data), SIZE, SIZE)
+  for (let x = 0; x < SIZE; x++) {
+    const p = (row * SIZE + x) * 4
+    pixels.data.set([0, 0, 0, 255], p)
+  }
+  return pixels
+}
+
+function filledColumns(area: ImageData, row: number): number[] {
+  const columns: number[] = []
+  for (let x = 0; x < SIZE; x++) {
+    if (area.data[(row * SIZE + x) * 4 + 3] !== 0) columns.push(x)
+  }
+  return columns
+}
+
+describe("getFillArea", () => {
+  it("stops at a freehand line", () => {
+    const layer = createLayer()
+    const area = getFillArea(withFreehandLine(layer, 5), 1, 1, layer)
+
+    expect(filledColumns(area, 4)).toEqual([0, 1, 2, 3, 4])
+    expect(filledColumns(area, 5)).toEqual([])
+    expect(filledColumns(area, 6)).toEqual([])
+  })
+
+  it("keeps a tap on a freehand line near the region edge inside the region", () => {
+    const layer = createLayer()
+    const area = getFillArea(withFreehandLine(layer, 5), EDGE - 1, 5, layer)
+
+    // The line runs on past the edge, but only its part inside the region is filled
+    expect(filledColumns(area, 5)).toEqual([0, 1, 2, 3, 4])
+    expect(filledColumns(area, 4)).toEqual([])
+  })
+
+  it("follows the layer's scale", () => {
+    const layer = { ...createLayer(), scale: 2 }
+    const line = withFreehandLine(createLayer(), 5)
+
+    // The same picture at twice the size
+    const pixels = new ImageData(SIZE * 2, SIZE * 2)
+    for (let y = 0; y < SIZE * 2; y++) {
+      for (let x = 0; x < SIZE * 2; x++) {
+        const source = ((y >> 1) * SIZE + (x >> 1)) * 4
+        pixels.data.set(line.data.subarray(source, source + 4), (y * SIZE * 2 + x) * 4)
+      }
+    }
+
+    const area = getFillArea(pixels, 2 * EDGE - 1, 10, layer)
+    let filled = 0
+    for (let p = 3; p < area.data.length; p += 4) if (area.data[p] !== 0) filled++
+    expect(filled).toBe(2 * 2 * EDGE) // Two canvas rows of the line, inside the region only
+  })
+})
@@ -1,18 +1,40 @@
 /**
  * Layer Generation System
  * Converts region map into drawable layers with clipping masks
+ *
+ * Each layer only covers its region's bounding box: its canvas and mask are
+ * cropped to it and placed at an offset on the page. The canvas context is
+ * translated by that offset once, so everything drawn on a layer uses page
+ * coordinates; only raw pixel access (getImageData, putImageData and the mask)
+ * works in layer coordinates.
+ *
+ * Canvases are rendered at a whole number of pixels per page pixel (the layer's
+ * scale, matched to the display by the canvas component), while masks stay at
+ * one pixel per page pixel. A layer's canvas pixels are its page pixels times
+ * its scale, so raw pixel access multiplies layer coordinates by the scale.
+ *
+ * After the region layers comes the freehand layer: it covers the whole page,
+ * starts transparent and holds what is drawn in free mode, above the regions.
  */
 
-import type { RegionMap } from "./regionDetection";
-import { NO_LAYER_SENTINEL, OPAQUE_ALPHA, TRANSPARENT_ALPHA } from "./constants";
+import { getRegionBounds, type RegionMap } from "./regionDetection";
+import type { PixelRect } from "./pixelRect";
+import { scanlineFill, type RGB } from "./floodFill";
+import { FREEHAND_LAYER_ID, NO_LAYER_SENTINEL, OPAQUE_ALPHA } from "./constants";
 
 export interface DrawingLayer {
   id: number;
-  canvas: HTMLCanvasElement;
-  ctx: CanvasRenderingContext2D;
-  mask: ImageData;
+  x: number; // Page position of the layer's top-left pixel
+  y: number;
+  scale: number; // Canvas pixels per page pixel (a whole number)
+  canvas: HTMLCanvasElement; // Covers the region's bounding box only, at the layer's scale
+  ctx: CanvasRenderingContext2D; // Scaled and translated to page coordinates
+  mask: ImageData; // The region's bounding box at one pixel per page pixel
 }
 
+// Anything a canvas can fill with: a flat color, a pattern or a gradient
+export type FillStyle = string | CanvasPattern | CanvasGradient;
+
 export interface LayerLookupTable {
   width: number;
   height: number;
@@ -22,43 +44,39 @@ export interface LayerLookupTable {
 
 /**
  * Generate layer metadata from a region map
- * Each layer represents one fillable region with a clipping mask
+ * Each layer represents one fillable region with a clipping mask, in region ID
+ * order, followed by the freehand layer
+ * Masks follow the lookup table, so they reach under the outlines to meet their neighbours
+ * Only each region's bounding box (measured during detection) is scanned for its mask
  */
 export function generateLayers(regionMap: RegionMap): DrawingLayer[] {
   const layers: DrawingLayer[] = [];
-  const { width, height, regionCount, pixelToRegion } = regionMap;
+  const { width, regionCount, lookup } = regionMap;
 
   // Create layer metadata for each region
   for (let regionId = 1; regionId <= regionCount; regionId++) {
-    // Create mask ImageData for this region
-    const mask = new ImageData(width, height);
-
-    // Fill mask: white (255) for pixels in this region, transparent (0) for others
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const pixelRegionId = pixelToRegion[y][x];
-        const idx = (y * width + x) * 4;
+    // Create mask ImageData covering this region's bounds (new ImageData starts fully transparent)
+    const bounds = getRegionBounds(regionMap, regionId);
+    const mask = new ImageData(bounds.width, bounds.height);
 
-        if (pixelRegionId === regionId) {
+    // Fill mask: white (255) for pixels of this layer, transparent (0) for others
+    for (let y = 0; y < bounds.height; y++) {
+      for (let x = 0; x < bounds.width; x++) {
+        if (lookup[(bounds.y + y) * width + bounds.x + x] === regionId - 1) {
           // This pixel belongs to this region - make it opaque in the mask
+          const idx = (y * bounds.width + x) * 4;
           mask.data[idx] = OPAQUE_ALPHA;
           mask.data[idx + 1] = OPAQUE_ALPHA;
           mask.data[idx + 2] = OPAQUE_ALPHA;
           mask.data[idx + 3] = OPAQUE_ALPHA;
-        } else {
-          // Not in this region - keep transparent
-          mask.data[idx] = TRANSPARENT_ALPHA;
-          mask.data[idx + 1] = TRANSPARENT_ALPHA;
-          mask.data[idx + 2] = TRANSPARENT_ALPHA;
-          mask.data[idx + 3] = TRANSPARENT_ALPHA;
         }
       }
     }
 
     // Create HTML canvas element for this layer
     const canvas = document.createElement('canvas');
-    canvas.width = width;
-    canvas.height = height;
+    canvas.width = bounds.width;
+    canvas.height = bounds.height;
     const ctx = canvas.getContext('2d', { willReadFrequently: false });
 
     if (!ctx) {
@@ -69,17 +87,113 @@ export function generateLayers(regionMap: RegionMap): DrawingLayer[] {
     // This allows us to use source-atop for clipping without temp canvases
     ctx.putImageData(mask, 0, 0);
 
-    layers.push({
-      id: regionId,
-      canvas,
-      ctx,
-      mask,
-    });
+    // From here on the layer is drawn on in page coordinates
+    ctx.translate(-bounds.x, -bounds.y);
+
+    layers.push({ id: regionId, x: bounds.x, y: bounds.y, scale: 1, canvas, ctx, mask });
   }
 
+  layers.push(createFreehandLayer(width, regionMap.height));
+
+  logLayerMemory(layers);
   return layers;
 }
 
+/**
+ * The layer free-mode drawing goes on: the whole page, blank when transparent
+ */
+function createFreehandLayer(width: number, height: number): DrawingLayer {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d', { willReadFrequently: false });
+
+  if (!ctx) {
+    throw new Error('Failed to get 2D context for the freehand layer');
+  }
+
+  // Its blank state is fully transparent, so the mask has nothing in it
+  return {
+    id: FREEHAND_LAYER_ID,
+    x: 0,
+    y: 0,
+    scale: 1,
+    canvas,
+    ctx,
+    mask: new ImageData(width, height),
+  };
+}
+
+/**
+ * Re-create layer canvases at a new scale, back in their blank state
+ * Whatever was drawn is lost, so the caller renders the drawing again
+ */
+export function rescaleLayers(layers: DrawingLayer[], scale: number): void {
+  layers.forEach((layer) => {
+    // Resizing a canvas clears it and resets its context
+    layer.canvas.width = layer.mask.width * scale;
+    layer.canvas.height = layer.mask.height * scale;
+    layer.ctx.setTransform(scale, 0, 0, scale, -layer.x * scale, -layer.y * scale);
+    layer.scale = scale;
+    resetLayer(layer);
+  });
+
+  logLayerMemory(layers);
+}
+
+/**
+ * A layer's blank pixels (its mask, scaled up to the canvas) for a rect of the canvas
+ * The rect is in canvas pixels, like getImageData
+ */
+export function getBlankPixels(
+  layer: DrawingLayer,
+  x: number,
+  y: number,
+  width: number,
+  height: number
+): ImageData {
+  const { mask, scale } = layer;
+  const blank = new ImageData(width, height);
+
+  // Every mask pixel covers scale x scale canvas pixels
+  for (let row = 0; row < height; row++) {
+    const maskRow = Math.floor((y + row) / scale) * mask.width;
+    for (let column = 0; column < width; column++) {
+      const maskIdx = (maskRow + Math.floor((x + column) / scale)) * 4;
+      const idx = (row * width + column) * 4;
+      blank.data[idx] = mask.data[maskIdx];
+      blank.data[idx + 1] = mask.data[maskIdx + 1];
+      blank.data[idx + 2] = mask.data[maskIdx + 2];
+      blank.data[idx + 3] = mask.data[maskIdx + 3];
+    }
+  }
+
+  return blank;
+}
+
+/**
+ * Bytes of pixel data a set of layers holds (each layer's canvas plus its mask)
+ */
+export function estimateLayerMemory(layers: DrawingLayer[]): number {
+  return layers.reduce(
+    (sum, layer) => sum + layer.canvas.width * layer.canvas.height * 4 + layer.mask.data.length,
+    0
+  );
+}
+
+/**
+ * Log how much pixel memory a page's layers take at their current scale, next to
+ * what full-page layers would (the freehand layer is page-sized)
+ */
+function logLayerMemory(layers: DrawingLayer[]): void {
+  const megabytes = (bytes: number) => (bytes / (1024 * 1024)).toFixed(1);
+  const page = layers[layers.length - 1];
+  const fullPage = layers.length * (page.canvas.width * page.canvas.height * 4 + page.mask.data.length);
+  console.log(
+    `[Memory] ${layers.length} layers at scale ${page.scale}: ${megabytes(estimateLayerMemory(layers))} MB of pixel data (full-page layers: ${megabytes(fullPage)} MB)`
+  );
+}
+
 /**
  * Draw a stroke on a layer with clipping applied
  * Uses source-atop to only draw where the mask pixels exist (no temp canvas needed!)
@@ -104,34 +218,191 @@ export function drawStrokeWithClipping(
 }
 
 /**
- * Create O(1) lookup table for fast layer-at-point queries
- * This is much faster than iterating through all layers on every pointer move
+ * Reset a layer to its blank state (just the white mask pixels)
  */
-export function createLayerLookupTable(
-  layers: DrawingLayer[],
-  width: number,
-  height: number
-): LayerLookupTable {
-  // Use Uint16Array to support up to 65,535 layers (more than enough)
-  const data = new Uint16Array(width * height);
-  data.fill(NO_LAYER_SENTINEL);
-
-  // Populate lookup table by checking each layer's mask
-  layers.forEach((layer, layerIndex) => {
-    for (let y = 0; y < height; y++) {
-      for (let x = 0; x < width; x++) {
-        const linearIdx = y * width + x;
-        const maskIdx = linearIdx * 4;
-
-        // If this pixel is opaque in the mask, it belongs to this layer
-        if (layer.mask.data[maskIdx + 3] === OPAQUE_ALPHA) {
-          data[linearIdx] = layerIndex;
-        }
+export function resetLayer(layer: DrawingLayer): void {
+  const { width, height } = layer.canvas;
+  layer.ctx.putImageData(getBlankPixels(layer, 0, 0, width, height), 0, 0);
+}
+
+/**
+ * Fill a layer's entire region with a color, pattern or gradient
+ * Goes through the same source-atop clipping as strokes, so only mask pixels are painted
+ */
+export function fillLayerRegion(layer: DrawingLayer, style: FillStyle): void {
+  const { x, y, width, height } = getLayerBounds(layer);
+  drawStrokeWithClipping(layer.canvas, layer.ctx, layer.mask, (ctx) => {
+    ctx.fillStyle = style;
+    ctx.fillRect(x, y, width, height);
+  });
+}
+
+/**
+ * A layer's pixels, with another layer's pixels over them when given
+ * (what a bucket fill on the layer sees)
+ */
+function readFillPixels(layer: DrawingLayer, over?: DrawingLayer): ImageData {
+  const { width, height } = layer.canvas;
+  if (!over) {
+    return layer.ctx.getImageData(0, 0, width, height);
+  }
+
+  const combined = document.createElement("canvas");
+  combined.width = width;
+  combined.height = height;
+  const combinedCtx = combined.getContext("2d", { willReadFrequently: true });
+  if (!combinedCtx) {
+    return layer.ctx.getImageData(0, 0, width, height);
+  }
+
+  // Both canvases have the same scale; place the other layer relative to this one
+  combinedCtx.drawImage(layer.canvas, 0, 0);
+  combinedCtx.drawImage(
+    over.canvas,
+    (over.x - layer.x) * layer.scale,
+    (over.y - layer.y) * layer.scale
+  );
+  return combinedCtx.getImageData(0, 0, width, height);
+}
+
+/**
+ * Bucket fill the connected area of matching color under a point on a layer
+ * Pixels outside the region mask are transparent, so the fill cannot leak past it
+ * @param barrier - A layer drawn over this one whose lines also stop the fill (e.g. freehand drawing)
+ */
+export function floodFillLayer(
+  layer: DrawingLayer,
+  x: number,
+  y: number,
+  color: RGB,
+  tolerance = 10,
+  barrier?: DrawingLayer
+): void {
+  // The fill area depends on both layers, so it is found on a combined copy
+  if (barrier) {
+    floodFillLayerWithStyle(layer, x, y, `rgb(${color.r}, ${color.g}, ${color.b})`, tolerance, barrier);
+    return;
+  }
+
+  // Pixel data is in layer coordinates, at the layer's scale
+  x = Math.floor((x - layer.x) * layer.scale);
+  y = Math.floor((y - layer.y) * layer.scale);
+
+  if (x < 0 || x >= layer.canvas.width || y < 0 || y >= layer.canvas.height) {
+    return;
+  }
+
+  const imageData = layer.ctx.getImageData(0, 0, layer.canvas.width, layer.canvas.height);
+  scanlineFill(imageData, x, y, color, tolerance);
+  layer.ctx.putImageData(imageData, 0, 0);
+}
+
+/**
+ * Mask of the area a bucket fill covers, from a point in the layer's canvas pixels
+ * The area is found with a flat flood fill on a copy of the pixels, and kept inside
+ * the layer's region: with a barrier layer over it, a fill that starts on a line
+ * follows the line past the region's edge
+ */
+export function getFillArea(
+  original: ImageData,
+  x: number,
+  y: number,
+  layer: DrawingLayer,
+  tolerance = 10
+): ImageData {
+  const { width, height } = original;
+  const { mask, scale } = layer;
+
+  // Flood with the inverse of the tapped color so every filled pixel visibly changes
+  const filled = new ImageData(new Uint8ClampedArray(original.data), width, height);
+  const i = (y * width + x) * 4;
+  scanlineFill(
+    filled,
+    x,
+    y,
+    {
+      r: 255 - original.data[i],
+      g: 255 - original.data[i + 1],
+      b: 255 - original.data[i + 2],
+      a: OPAQUE_ALPHA,
+    },
+    tolerance
+  );
+
+  // Every mask pixel covers scale x scale canvas pixels
+  const area = new ImageData(width, height);
+  for (let row = 0; row < height; row++) {
+    const maskRow = Math.floor(row / scale) * mask.width;
+    for (let column = 0; column < width; column++) {
+      const p = (row * width + column) * 4;
+      if (mask.data[(maskRow + Math.floor(column / scale)) * 4 + 3] === 0) continue;
+      if (
+        original.data[p] !== filled.data[p] ||
+        original.data[p + 1] !== filled.data[p + 1] ||
+        original.data[p + 2] !== filled.data[p + 2] ||
+        original.data[p + 3] !== filled.data[p + 3]
+      ) {
+        area.data[p + 3] = OPAQUE_ALPHA;
       }
     }
-  });
+  }
+
+  return area;
+}
+
+/**
+ * Bucket fill the connected area under a point with a pattern or gradient
+ * The area (see getFillArea) is painted through as a mask
+ * @param barrier - A layer drawn over this one whose lines also stop the fill (e.g. freehand drawing)
+ */
+export function floodFillLayerWithStyle(
+  layer: DrawingLayer,
+  x: number,
+  y: number,
+  style: FillStyle,
+  tolerance = 10,
+  barrier?: DrawingLayer
+): void {
+  // Pixel data is in layer coordinates, at the layer's scale
+  x = Math.floor((x - layer.x) * layer.scale);
+  y = Math.floor((y - layer.y) * layer.scale);
+
+  const { width, height } = layer.canvas;
+  if (x < 0 || x >= width || y < 0 || y >= height) {
+    return;
+  }
 
-  return { width, height, data };
+  const area = getFillArea(readFillPixels(layer, barrier), x, y, layer, tolerance);
+
+  const paint = document.createElement("canvas");
+  paint.width = width;
+  paint.height = height;
+  const paintCtx = paint.getContext("2d");
+  if (!paintCtx) return;
+
+  // Patterns and gradients are laid out in page coordinates, like on the layer
+  const bounds = getLayerBounds(layer);
+  paintCtx.putImageData(area, 0, 0);
+  paintCtx.setTransform(layer.ctx.getTransform());
+  paintCtx.globalCompositeOperation = "source-in";
+  paintCtx.fillStyle = style;
+  paintCtx.fillRect(bounds.x, bounds.y, bounds.width, bounds.height);
+
+  layer.ctx.drawImage(paint, bounds.x, bounds.y, bounds.width, bounds.height);
+}
+
+/**
+ * Bounding box of a layer's region on the page (the area its canvas covers)
+ */
+export function getLayerBounds(layer: DrawingLayer): PixelRect {
+  return { x: layer.x, y: layer.y, width: layer.mask.width, height: layer.mask.height };
+}
+
+/**
+ * The O(1) layer lookup table of a region map (built during detection, not copied)
+ */
+export function getLayerLookupTable(regionMap: RegionMap): LayerLookupTable {
+  return { width: regionMap.width, height: regionMap.height, data: regionMap.lookup };
 }
 
 /**
@@ -144,9 +415,9 @@ export function findLayerAtPoint(
   y: number,
   lookupTable?: LayerLookupTable
 ): DrawingLayer | null {
-  // Round coordinates to pixel boundaries
-  x = Math.round(x);
-  y = Math.round(y);
+  // The pixel the point falls in
+  x = Math.floor(x);
+  y = Math.floor(y);
 
   // Use lookup table if provided (O(1) lookup)
   if (lookupTable) {
@@ -168,7 +439,12 @@ export function findLayerAtPoint(
 
   // Fallback to old O(n) approach if no lookup table provided (for backwards compatibility)
   for (const layer of layers) {
-    const idx = (y * layer.mask.width + x) * 4;
+    const maskX = x - layer.x;
+    const maskY = y - layer.y;
+    if (maskX < 0 || maskX >= layer.mask.width || maskY < 0 || maskY >= layer.mask.height) {
+      continue;
+    }
+    const idx = (maskY * layer.mask.width + maskX) * 4;
 
     // Check if this pixel is opaque in the mask (meaning it's in this region)
     if (layer.mask.data[idx + 3] === 255) {
@@ -0,0 +1,131 @@
+/**
+ * Patterns
+ * Pattern and gradient paints, sized to the region they are painted in
+ *
+ * Every paint is built from two colors (the current color and a second one)
+ * and framed by a bounding box: pattern tiles scale with the box so a small
+ * region still shows several motifs, and gradients run corner to corner
+ * across it. The box is stored with the action, so replays paint identically.
+ */
+
+import type { PixelRect } from "./pixelRect"
+import type { FillStyle } from "./layerGeneration"
+import { renderStamp } from "./stamps"
+import { PATTERN_REPEATS, MIN_PATTERN_TILE, MAX_PATTERN_TILE } from "./constants"
+
+export type PatternType = "stripes" | "dots" | "checks" | "hearts" | "gradient"
+
+export interface PatternFill {
+  type: PatternType
+  secondaryColor: string // Pattern background, or where the gradient ends
+  bounds: PixelRect // The region the pattern is sized to
+}
+
+type TileRenderer = (ctx: CanvasRenderingContext2D, size: number, color: string) => void
+
+// Motifs drawn onto a square tile whose background is already the second color
+const TILE_RENDERERS: Record<Exclude<PatternType, "gradient">, TileRenderer> = {
+  stripes: (ctx, size, color) => {
+    // Diagonal stripes, continued through the corners so tiles join seamlessly
+    ctx.strokeStyle = color
+    ctx.lineWidth = size / 4
+    for (const offset of [-size, 0, size]) {
+      ctx.beginPath()
+      ctx.moveTo(offset, size)
+      ctx.lineTo(offset + size, 0)
+      ctx.stroke()
+    }
+  },
+  dots: (ctx, size, color) => {
+    ctx.fillStyle = color
+    ctx.beginPath()
+    ctx.arc(size / 2, size / 2, size / 4, 0, Math.PI * 2)
+    ctx.fill()
+  },
+  checks: (ctx, size, color) => {
+    ctx.fillStyle = color
+    ctx.fillRect(0, 0, size / 2, size / 2)
+    ctx.fillRect(size / 2, size / 2, size / 2, size / 2)
+  },
+  hearts: (ctx, size, color) => {
+    renderStamp(ctx, "heart", size / 2, size / 2, size * 0.7, color)
+  },
+}
+
+// Shown in the pattern picker, in this order
+export const PATTERNS: { type: PatternType; name: string }[] = [
+  { type: "stripes", name: "Stripes" },
+  { type: "dots", name: "Polka Dots" },
+  { type: "checks", name: "Checks" },
+  { type: "hearts", name: "Hearts" },
+  { type: "gradient", name: "Gradient" },
+]
+
+const tileCache = new Map<string, HTMLCanvasElement>()
+
+/**
+ * Tile size for a region: a few motifs across it, within sensible limits
+ */
+function getTileSize(bounds: PixelRect): number {
+  const size = Math.max(bounds.width, bounds.height) / PATTERN_REPEATS
+  return Math.round(Math.min(MAX_PATTERN_TILE, Math.max(MIN_PATTERN_TILE, size)))
+}
+
+/**
+ * A pattern tile (cached per pattern, colors and size)
+ */
+function getTile(
+  type: Exclude<PatternType, "gradient">,
+  color: string,
+  secondaryColor: string,
+  size: number
+): HTMLCanvasElement {
+  const key = `${type}:${color}:${secondaryColor}:${size}`
+  const cached = tileCache.get(key)
+  if (cached) return cached
+
+  const tile = document.createElement("canvas")
+  tile.width = size
+  tile.height = size
+  const ctx = tile.getContext("2d")
+  if (ctx) {
+    ctx.fillStyle = secondaryColor
+    ctx.fillRect(0, 0, size, size)
+    TILE_RENDERERS[type](ctx, size, color)
+  }
+
+  tileCache.set(key, tile)
+  return tile
+}
+
+/**
+ * Build the paint for a pattern fill, usable as a fillStyle or strokeStyle
+ * Falls back to the flat color if the pattern can't be created
+ */
+export function createPatternPaint(
+  ctx: CanvasRenderingContext2D,
+  fill: PatternFill,
+  color: string
+): FillStyle {
+  const { bounds } = fill
+
+  if (fill.type === "gradient") {
+    const gradient = ctx.createLinearGradient(
+      bounds.x,
+      bounds.y,
+      bounds.x + bounds.width,
+      bounds.y + bounds.height
+    )
+    gradient.addColorStop(0, color)
+    gradient.addColorStop(1, fill.secondaryColor)
+    return gradient
+  }
+
+  const tile = getTile(fill.type, color, fill.secondaryColor, getTileSize(bounds))
+  const pattern = ctx.createPattern(tile, "repeat")
+  if (!pattern) return color
+
+  // Start the tiling at the region's corner rather than the page's
+  pattern.setTransform(new DOMMatrix().translate(bounds.x, bounds.y))
+  return pattern
+}
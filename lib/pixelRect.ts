@@ -0,0 +1,36 @@
+/**
+ * Pixel Rects
+ * Rectangles of page (or canvas) pixels, with their overlap and union
+ */
+
+export interface PixelRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * The overlap of two rects, or null when they don't overlap
+ */
+export function intersectRects(a: PixelRect, b: PixelRect): PixelRect | null {
+  const x = Math.max(a.x, b.x)
+  const y = Math.max(a.y, b.y)
+  const right = Math.min(a.x + a.width, b.x + b.width)
+  const bottom = Math.min(a.y + a.height, b.y + b.height)
+  return right > x && bottom > y ? { x, y, width: right - x, height: bottom - y } : null
+}
+
+/**
+ * The smallest rect covering two rects
+ */
+export function unionRects(a: PixelRect, b: PixelRect): PixelRect {
+  const x = Math.min(a.x, b.x)
+  const y = Math.min(a.y, b.y)
+  return {
+    x,
+    y,
+    width: Math.max(a.x + a.width, b.x + b.width) - x,
+    height: Math.max(a.y + a.height, b.y + b.height) - y,
+  }
+}
@@ -1,6 +1,10 @@
-import { detectRegions, type RegionMap } from "@/lib/regionDetection"
-import { loadImageData } from "@/lib/imageLoader"
-import { BOUNDARY_THRESHOLD, MIN_REGION_SIZE } from "@/lib/constants"
+import { detectRegions, type ProgressCallback, type RegionMap } from "@/lib/regionDetection"
+import { loadImageBitmap, loadImageData } from "@/lib/imageLoader"
+import type { ImageWorkerRequest, ImageWorkerResponse } from "@/lib/imageWorker"
+import { BOUNDARY_THRESHOLD, MIN_REGION_SIZE, WORKING_RESOLUTION } from "@/lib/constants"
+
+// Performance debugging flag - set to true only during development
+const DEBUG_PERFORMANCE = false
 
 export interface ProcessedImageData {
   regionMap: RegionMap
@@ -9,17 +13,36 @@ export interface ProcessedImageData {
 
 /**
  * Process an image for the drawing canvas
- * - Detects fillable regions
- * - Loads the outline image
+ * - Detects fillable regions (in a worker when available) at the working
+ *   resolution, bridging outline gaps up to gapSize pixels wide
+ * - Loads the outline image at its own resolution (without the bridges)
+ * Progress is reported from 0 to 1
  */
 export async function processImage(
-  imageSrc: string | { src: string }
+  imageSrc: string | { src: string },
+  onProgress?: ProgressCallback,
+  gapSize = 0
 ): Promise<ProcessedImageData> {
   const imgUrl = typeof imageSrc === "string" ? imageSrc : imageSrc.src
 
-  // Load and process image data for region detection
-  const imageData = await loadImageData(imgUrl)
-  const regionMap = detectRegions(imageData, BOUNDARY_THRESHOLD, MIN_REGION_SIZE)
+  // Detect regions in a worker, or on the main thread when workers are unavailable
+  const detectStart = DEBUG_PERFORMANCE ? performance.now() : 0
+  let regionMap: RegionMap
+  try {
+    regionMap = await detectRegionsInWorker(imgUrl, gapSize, onProgress)
+  } catch (error) {
+    console.warn("Image worker unavailable, processing on the main thread:", error)
+    const imageData = await loadImageData(imgUrl, WORKING_RESOLUTION)
+    regionMap = detectRegions(imageData, BOUNDARY_THRESHOLD, MIN_REGION_SIZE, gapSize, onProgress)
+  }
+
+  if (DEBUG_PERFORMANCE) {
+    const detectTime = performance.now() - detectStart
+    const bridged = regionMap.bridges?.reduce((sum, bridge) => sum + bridge, 0) ?? 0
+    console.log(
+      `[Performance] ${regionMap.regionCount} regions in ${regionMap.width}x${regionMap.height} detected in ${detectTime.toFixed(1)}ms (${bridged} pixels bridged)`
+    )
+  }
 
   // Load outline image
   const outlineImage = await loadOutlineImage(imgUrl)
@@ -27,6 +50,42 @@ export async function processImage(
   return { regionMap, outlineImage }
 }
 
+/**
+ * Run region detection in a dedicated worker
+ * The image goes over as an ImageBitmap when the worker can read one, else as ImageData
+ */
+async function detectRegionsInWorker(
+  imgUrl: string,
+  gapSize: number,
+  onProgress?: ProgressCallback
+): Promise<RegionMap> {
+  if (typeof Worker === "undefined") throw new Error("Web Workers are not supported")
+
+  const image =
+    typeof createImageBitmap === "function" && typeof OffscreenCanvas !== "undefined"
+      ? await loadImageBitmap(imgUrl)
+      : await loadImageData(imgUrl, WORKING_RESOLUTION)
+  const transfer = image instanceof ImageData ? [image.data.buffer] : [image]
+
+  const worker = new Worker(new URL("./imageWorker.ts", import.meta.url), { type: "module" })
+  try {
+    return await new Promise<RegionMap>((resolve, reject) => {
+      worker.onmessage = (event: MessageEvent<ImageWorkerResponse>) => {
+        const response = event.data
+        if (response.type === "progress") onProgress?.(response.progress)
+        else if (response.type === "done") resolve(response.regionMap)
+        else reject(new Error(response.message))
+      }
+      worker.onerror = (event) => reject(new Error(event.message || "Image worker failed"))
+
+      const request: ImageWorkerRequest = { image, gapSize }
+      worker.postMessage(request, transfer)
+    })
+  } finally {
+    worker.terminate()
+  }
+}
+
 /**
  * Load the outline image
  */
@@ -0,0 +1,118 @@
+import { readFileSync } from "fs"
+import { join } from "path"
+import { PNG } from "pngjs"
+import { describe, expect, it } from "vitest"
+import { detectRegions, getRegionInfo, type RegionMap } from "./regionDetection"
+import { BOUNDARY_THRESHOLD, MIN_REGION_SIZE } from "./constants"
+
+/**
+ * Detect the regions of a bundled page, flattened onto white like the image loader does
+ * (the pages are already at the working resolution)
+ */
+function detectPage(name: string): RegionMap {
+  const png = PNG.sync.read(readFileSync(join(__dirname, "../assets/images", `${name}.png`)))
+  const data = new Uint8ClampedArray(png.data.length)
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = png.data[i + 3] / 255
+    for (let c = 0; c < 3; c++) data[i + c] = Math.round(png.data[i + c] * alpha + 255 * (1 - alpha))
+    data[i + 3] = 255
+  }
+
+  const imageData = { width: png.width, height: png.height, data } as ImageData
+  return detectRegions(imageData, BOUNDARY_THRESHOLD, MIN_REGION_SIZE)
+}
+
+describe("region info", () => {
+  const pages = Object.fromEntries(
+    ["circle", "square", "sun"].map((name) => [name, detectPage(name)])
+  ) as Record<string, RegionMap>
+
+  it("describes the circle", () => {
+    const map = pages.circle
+    expect(map.regionCount).toBe(2)
+
+    const [background, inside] = map.regions
+    expect(background.bounds).toEqual({ x: 0, y: 0, width: 1000, height: 1000 })
+    expect(background.area).toBe(471856)
+    expect(background.perimeter).toBe(7280) // The page edge plus the outside of the outline
+    expect(background.neighbours).toEqual([2])
+
+    expect(inside.bounds).toEqual({ x: 110, y: 110, width: 780, height: 780 })
+    expect(inside.area).toBe(477891)
+    expect(inside.centroid.x).toBeCloseTo(499.5)
+    expect(inside.centroid.y).toBeCloseTo(499.5)
+    expect(inside.perimeter).toBe(3120) // A convex pixel shape has its bounding box's perimeter
+    expect(inside.neighbours).toEqual([1])
+  })
+
+  it("describes the square", () => {
+    const map = pages.square
+    expect(map.regionCount).toBe(2)
+
+    const inside = map.regions[1]
+    expect(inside.bounds).toEqual({ x: 110, y: 110, width: 780, height: 780 })
+    expect(inside.area).toBe(607628)
+    expect(inside.centroid.x).toBeCloseTo(499.5)
+    expect(inside.centroid.y).toBeCloseTo(499.5)
+    expect(inside.anchor).toEqual({ x: 499, y: 135 })
+    expect(inside.perimeter).toBe(3120)
+    expect(inside.neighbours).toEqual([1])
+  })
+
+  it("describes the sun", () => {
+    const map = pages.sun
+    expect(map.regionCount).toBe(10)
+
+    // The rays and the middle all sit in the sky, and only touch the sky
+    const [sky, ...shapes] = map.regions
+    expect(sky.neighbours).toEqual([2, 3, 4, 5, 6, 7, 8, 9, 10])
+    shapes.forEach((shape) => expect(shape.neighbours).toEqual([1]))
+
+    const middle = getRegionInfo(map, 5)!
+    expect(middle.bounds).toEqual({ x: 321, y: 321, width: 358, height: 358 })
+    expect(middle.area).toBe(100868)
+    expect(middle.centroid.x).toBeCloseTo(499.5)
+    expect(middle.centroid.y).toBeCloseTo(499.5)
+    expect(middle.perimeter).toBe(1432)
+
+    // Opposite rays mirror each other
+    const top = getRegionInfo(map, 2)!
+    const bottom = getRegionInfo(map, 10)!
+    expect(top.area).toBe(bottom.area)
+    expect(top.perimeter).toBe(bottom.perimeter)
+    expect(top.centroid.x).toBeCloseTo(bottom.centroid.x)
+    expect(top.centroid.y).toBeCloseTo(999 - bottom.centroid.y)
+  })
+
+  it("anchors every region inside itself", () => {
+    Object.values(pages).forEach((map) => {
+      map.regions.forEach((region) => {
+        expect(map.pixelToRegion[region.anchor.y * map.width + region.anchor.x]).toBe(region.id)
+      })
+    })
+  })
+
+  it("matches each region's pixels", () => {
+    Object.values(pages).forEach((map) => {
+      map.regions.forEach((region) => {
+        let area = 0
+        let left = map.width
+        let top = map.height
+        let right = 0
+        let bottom = 0
+        for (let i = 0; i < map.pixelToRegion.length; i++) {
+          if (map.pixelToRegion[i] !== region.id) continue
+          const x = i % map.width
+          const y = Math.floor(i / map.width)
+          area++
+          left = Math.min(left, x)
+          top = Math.min(top, y)
+          right = Math.max(right, x + 1)
+          bottom = Math.max(bottom, y + 1)
+        }
+        expect(region.area).toBe(area)
+        expect(region.bounds).toEqual({ x: left, y: top, width: right - left, height: bottom - top })
+      })
+    })
+  })
+})
@@ -1,76 +1,284 @@
 /**
  * Region Detection System
  * Identifies and maps distinct bounded regions in an image
+ *
+ * Regions are labelled with two-pass union-find connected-component labelling
+ * over flat typed arrays: the first pass gives every pixel a provisional label
+ * and records which labels touch, the second measures each merged component,
+ * and a final pass writes the region IDs together with the layer lookup table
+ * and every region's bounding box. Region IDs are numbered in raster order of
+ * each region's first pixel. The final pass also measures each region (see
+ * RegionInfo).
+ *
+ * The region IDs keep outlines as boundary, but the layers don't: the lookup
+ * table (and with it the layer masks and bounds) gives every outline pixel and
+ * every pixel of a discarded noise region to the nearest region. Color then
+ * runs under the anti-aliased edge of the outline, to where two regions meet
+ * halfway across the line, instead of stopping short and leaving a white halo.
+ *
+ * Line art with small breaks in its outlines can be closed first: a
+ * morphological closing (dilate the outlines, then erode them back) bridges
+ * gaps up to a given width, so nearly closed shapes become separate regions.
+ * The bridges only exist in the region map, not in the outline image, and the
+ * layers grow over them like over any outline, so the seam can be painted.
  */
 
-import { getPixelColor, type Point } from "./floodFill";
-import { isBoundaryPixel } from "./canvasUtils";
+import type { PixelRect } from "./pixelRect";
+import type { Point } from "./floodFill";
+import { NO_LAYER_SENTINEL } from "./constants";
 
 export interface RegionMap {
   width: number;
   height: number;
   regionCount: number;
-  // 2D array: regionMap[y][x] = region ID (or -1 for boundary, 0 for unassigned)
-  pixelToRegion: number[][];
+  // Region ID of each pixel at y * width + x (-1 for boundary)
+  pixelToRegion: Int32Array;
+  // Layer index of each pixel (region ID - 1), outlines included: they belong to the
+  // nearest region (NO_LAYER_SENTINEL only when the page has no regions at all)
+  lookup: Uint16Array;
+  // x, y, width, height of each region's layer, in region ID order
+  bounds: Int32Array;
+  // 1 where gap closing bridged an outline (only when gaps were closed)
+  bridges?: Uint8Array;
+  // Facts about each region, in region ID order (see getRegionInfo)
+  regions: RegionInfo[];
 }
 
+export interface RegionInfo {
+  id: number;
+  bounds: PixelRect; // Of the region's own pixels (its layer also covers the outlines around it)
+  area: number; // In pixels
+  centroid: Point; // Mean pixel position (can lie outside rings and crescents)
+  anchor: Point; // A pixel inside the region: the middle of its longest horizontal run
+  perimeter: number; // Pixel edges between the region and anything else, page edge included
+  neighbours: number[]; // IDs of the regions across its outlines, ascending
+}
+
+// Progress from 0 to 1
+export type ProgressCallback = (progress: number) => void;
+
 /**
  * Detect all regions in an image
- * A region is a connected area of non-boundary pixels
+ * A region is a 4-connected area of non-boundary pixels
+ * Gaps in the outlines up to gapSize pixels wide are bridged first (0 = off)
+ * Progress (0-1) is reported after every row of each pass
  */
 export function detectRegions(
   imageData: ImageData,
   boundaryThreshold = 128,
-  minRegionSize = 10
+  minRegionSize = 10,
+  gapSize = 0,
+  onProgress?: ProgressCallback
 ): RegionMap {
-  const width = imageData.width;
-  const height = imageData.height;
+  const { width, height, data } = imageData;
+  const pixelCount = width * height;
+
+  // A pixel is a boundary if it's darker than the threshold (see isBoundaryPixel)
+  const outlines = new Uint8Array(pixelCount);
+  for (let index = 0; index < pixelCount; index++) {
+    const i = index * 4;
+    if (data[i] + data[i + 1] + data[i + 2] < boundaryThreshold * 3) outlines[index] = 1;
+  }
+
+  // A square closing of radius r bridges gaps up to 2r pixels wide
+  const closed = gapSize > 0 ? closeOutlines(outlines, width, height, Math.ceil(gapSize / 2)) : outlines;
+  const bridges = closed !== outlines ? new Uint8Array(pixelCount) : undefined;
+  if (bridges) {
+    for (let index = 0; index < pixelCount; index++) {
+      if (closed[index] === 1 && outlines[index] === 0) bridges[index] = 1;
+    }
+  }
 
-  // Initialize pixel-to-region map
-  // -1 = boundary pixel, 0 = unassigned, >0 = region ID
-  const pixelToRegion: number[][] = Array(height)
-    .fill(0)
-    .map(() => Array(width).fill(0));
+  // Provisional labels (0 = boundary) and the union-find forest over them
+  // (4-connected components can't need more labels than half the pixels, plus one)
+  const labels = new Int32Array(pixelCount);
+  const parent = new Int32Array(Math.ceil(pixelCount / 2) + 2);
+  let nextLabel = 1;
 
-  // Mark boundary pixels
+  const find = (label: number): number => {
+    while (parent[label] !== label) {
+      parent[label] = parent[parent[label]]; // Path halving
+      label = parent[label];
+    }
+    return label;
+  };
+
+  // Pass 1: label each pixel from its left and upper neighbours, merging where they differ
   for (let y = 0; y < height; y++) {
     for (let x = 0; x < width; x++) {
-      const color = getPixelColor(imageData, x, y);
-      if (isBoundaryPixel(color, boundaryThreshold)) {
-        pixelToRegion[y][x] = -1;
+      const index = y * width + x;
+      if (closed[index] === 1) continue;
+
+      const left = x > 0 ? labels[index - 1] : 0;
+      const up = y > 0 ? labels[index - width] : 0;
+
+      if (left === 0 && up === 0) {
+        parent[nextLabel] = nextLabel;
+        labels[index] = nextLabel++;
+      } else if (left === 0 || up === 0 || left === up) {
+        labels[index] = left || up;
+      } else {
+        const rootLeft = find(left);
+        const rootUp = find(up);
+        // The older label stays the root, so roots keep raster order
+        if (rootLeft < rootUp) parent[rootUp] = rootLeft;
+        else if (rootUp < rootLeft) parent[rootLeft] = rootUp;
+        labels[index] = left;
       }
     }
+    onProgress?.(((y + 1) / height) * 0.5);
   }
 
-  // Find all regions using flood fill
+  // Pass 2: resolve every label to its component and measure the components
+  const areas = new Int32Array(nextLabel);
+  for (let y = 0; y < height; y++) {
+    for (let index = y * width; index < (y + 1) * width; index++) {
+      if (labels[index] === 0) continue;
+      labels[index] = find(labels[index]);
+      areas[labels[index]]++;
+    }
+    onProgress?.(0.5 + ((y + 1) / height) * 0.25);
+  }
+
+  // Number the components that are big enough in raster order of their first pixel
+  // (a root is its component's smallest label, and labels are handed out in raster order)
+  const regionIds = new Int32Array(nextLabel).fill(-1);
   let regionCount = 0;
-  let currentRegionId = 1;
+  for (let label = 1; label < nextLabel; label++) {
+    if (parent[label] === label && areas[label] >= minRegionSize) {
+      regionIds[label] = ++regionCount;
+    }
+  }
+
+  // Small regions (noise) become boundary so they are ignored
+  // Layers are generated in region ID order, so a region's layer index is its ID - 1
+  const pixelToRegion = new Int32Array(pixelCount);
+  const lookup = new Uint16Array(pixelCount);
+  for (let index = 0; index < pixelCount; index++) {
+    const regionId = labels[index] === 0 ? -1 : regionIds[labels[index]];
+    pixelToRegion[index] = regionId;
+    lookup[index] = regionId < 0 ? NO_LAYER_SENTINEL : regionId - 1;
+  }
+  growIntoBoundaries(lookup, width, height);
+
+  // Pass 3: measure the layers' bounding boxes and the regions
+  const bounds = new Int32Array(regionCount * 4);
+  const regionBounds = new Int32Array(regionCount * 4);
+  for (let i = 0; i < regionCount; i++) {
+    bounds.set([width, height, -1, -1], i * 4);
+    regionBounds.set([width, height, -1, -1], i * 4);
+  }
+  const regionAreas = new Int32Array(regionCount);
+  const sumX = new Float64Array(regionCount);
+  const sumY = new Float64Array(regionCount);
+  const perimeters = new Int32Array(regionCount);
+  const longestRuns = new Int32Array(regionCount * 3); // Length, x and y of the middle
+  const neighbours = Array.from({ length: regionCount }, () => new Set<number>());
+
+  // Rows are measured a run of equal pixels at a time, and each pair of rows
+  // once for the edges between them, so no pixel looks at all four neighbours
+  const noLayer = NO_LAYER_SENTINEL; // Compared on every pixel: read the import once
+  const link = (a: number, b: number) => {
+    neighbours[a].add(b + 1);
+    neighbours[b].add(a + 1);
+  };
 
   for (let y = 0; y < height; y++) {
-    for (let x = 0; x < width; x++) {
-      // Skip if already assigned or is a boundary
-      if (pixelToRegion[y][x] !== 0) continue;
-
-      // Found a new region - flood fill to find all pixels in this region
-      const regionPixels = floodFillRegion(
-        imageData,
-        pixelToRegion,
-        x,
-        y,
-        currentRegionId
-      );
-
-      // Only keep regions above minimum size
-      if (regionPixels.length >= minRegionSize) {
-        regionCount++;
-        currentRegionId++;
-      } else {
-        // Mark small regions as boundary to ignore them
-        for (const pixel of regionPixels) {
-          pixelToRegion[pixel.y][pixel.x] = -1;
+    const rowStart = y * width;
+
+    // Layers: bounding boxes, and neighbours where two layers meet side by side.
+    // Layers meet halfway across the outline between two regions, so that's
+    // where neighbours touch
+    for (let x = 0; x < width; ) {
+      const layerIndex = lookup[rowStart + x];
+      let end = x + 1;
+      while (end < width && lookup[rowStart + end] === layerIndex) end++;
+
+      if (layerIndex !== noLayer) {
+        const b = layerIndex * 4;
+        if (x < bounds[b]) bounds[b] = x;
+        if (y < bounds[b + 1]) bounds[b + 1] = y;
+        if (end - 1 > bounds[b + 2]) bounds[b + 2] = end - 1;
+        bounds[b + 3] = y;
+        if (end < width && lookup[rowStart + end] !== noLayer) link(layerIndex, lookup[rowStart + end]);
+      }
+      x = end;
+    }
+
+    // ...and where they meet above and below
+    if (y > 0) {
+      for (let index = rowStart; index < rowStart + width; index++) {
+        const layerIndex = lookup[index];
+        const up = lookup[index - width];
+        if (layerIndex !== up && layerIndex !== noLayer && up !== noLayer) link(layerIndex, up);
+      }
+    }
+
+    // Regions: area, centroid, bounds, the longest run and the side edges of each run
+    for (let x = 0; x < width; ) {
+      const regionId = pixelToRegion[rowStart + x];
+      let end = x + 1;
+      while (end < width && pixelToRegion[rowStart + end] === regionId) end++;
+
+      if (regionId > 0) {
+        const r = regionId - 1;
+        const b = r * 4;
+        const length = end - x;
+        if (x < regionBounds[b]) regionBounds[b] = x;
+        if (y < regionBounds[b + 1]) regionBounds[b + 1] = y;
+        if (end - 1 > regionBounds[b + 2]) regionBounds[b + 2] = end - 1;
+        regionBounds[b + 3] = y;
+        regionAreas[r] += length;
+        sumX[r] += ((x + end - 1) * length) / 2;
+        sumY[r] += y * length;
+        perimeters[r] += 2;
+        if (length > longestRuns[r * 3]) {
+          longestRuns.set([length, (x + end - 1) >> 1, y], r * 3);
         }
       }
+      x = end;
     }
+
+    // The edges between this row and the one above (the page edge counts for both ends)
+    for (let index = rowStart; index < rowStart + width; index++) {
+      const regionId = pixelToRegion[index];
+      const up = y > 0 ? pixelToRegion[index - width] : -1;
+      if (regionId === up) continue;
+      if (regionId > 0) perimeters[regionId - 1]++;
+      if (up > 0) perimeters[up - 1]++;
+    }
+    if (y === height - 1) {
+      for (let index = rowStart; index < rowStart + width; index++) {
+        if (pixelToRegion[index] > 0) perimeters[pixelToRegion[index] - 1]++;
+      }
+    }
+
+    onProgress?.(0.75 + ((y + 1) / height) * 0.25);
+  }
+
+  // Turn the max corners into sizes
+  for (let b = 0; b < bounds.length; b += 4) {
+    bounds[b + 2] = bounds[b + 2] - bounds[b] + 1;
+    bounds[b + 3] = bounds[b + 3] - bounds[b + 1] + 1;
+  }
+
+  const regions: RegionInfo[] = [];
+  for (let r = 0; r < regionCount; r++) {
+    const b = r * 4;
+    regions.push({
+      id: r + 1,
+      bounds: {
+        x: regionBounds[b],
+        y: regionBounds[b + 1],
+        width: regionBounds[b + 2] - regionBounds[b] + 1,
+        height: regionBounds[b + 3] - regionBounds[b + 1] + 1,
+      },
+      area: regionAreas[r],
+      centroid: { x: sumX[r] / regionAreas[r], y: sumY[r] / regionAreas[r] },
+      anchor: { x: longestRuns[r * 3 + 1], y: longestRuns[r * 3 + 2] },
+      perimeter: perimeters[r],
+      neighbours: Array.from(neighbours[r]).sort((a, b) => a - b),
+    });
   }
 
   return {
@@ -78,132 +286,196 @@ export function detectRegions(
     height,
     regionCount,
     pixelToRegion,
+    lookup,
+    bounds,
+    bridges,
+    regions,
   };
 }
 
 /**
- * Flood fill to identify all pixels in a region
+ * Morphological closing of an outline mask with a square of the given radius
+ * Gaps narrower than the square are filled, the outlines themselves keep their shape
  */
-function floodFillRegion(
-  imageData: ImageData,
-  pixelToRegion: number[][],
-  startX: number,
-  startY: number,
-  regionId: number
-): Point[] {
-  const width = imageData.width;
-  const height = imageData.height;
-  const pixels: Point[] = [];
-  const stack: Point[] = [{ x: startX, y: startY }];
-  // Use Set<number> with linear indices instead of Set<string> for better performance
-  // Linear index = y * width + x
-  const visited = new Set<number>();
-
-  while (stack.length > 0) {
-    const { x, y } = stack.pop()!;
-
-    // Skip if out of bounds
-    if (x < 0 || x >= width || y < 0 || y >= height) continue;
-
-    // Convert to linear index for efficient visited tracking
-    const linearIndex = y * width + x;
-    if (visited.has(linearIndex)) continue;
-    visited.add(linearIndex);
-
-    // Skip if this pixel is already assigned or is a boundary
-    if (pixelToRegion[y][x] !== 0) continue;
-
-    // Add to region
-    pixels.push({ x, y });
-    pixelToRegion[y][x] = regionId;
-
-    // Add neighbors
-    stack.push({ x: x + 1, y });
-    stack.push({ x: x - 1, y });
-    stack.push({ x, y: y + 1 });
-    stack.push({ x, y: y - 1 });
-  }
+function closeOutlines(
+  outlines: Uint8Array,
+  width: number,
+  height: number,
+  radius: number
+): Uint8Array {
+  // Dilate (any outline pixel nearby), then erode (any gap pixel nearby)
+  // Pixels past the page edge count as neither, so outlines touching the edge stay put
+  const dilated = spreadValue(outlines, width, height, radius, 1);
+  return spreadValue(dilated, width, height, radius, 0);
+}
 
-  return pixels;
+/**
+ * Set every pixel that has the value anywhere in the square around it to that value
+ * Runs as a horizontal then a vertical sliding window, so the cost doesn't grow with the radius
+ */
+function spreadValue(
+  mask: Uint8Array,
+  width: number,
+  height: number,
+  radius: number,
+  value: 0 | 1
+): Uint8Array {
+  const horizontal = new Uint8Array(mask.length);
+  const result = new Uint8Array(mask.length);
+
+  const slide = (
+    source: Uint8Array,
+    target: Uint8Array,
+    length: number,
+    count: number,
+    at: (line: number, i: number) => number
+  ) => {
+    for (let line = 0; line < count; line++) {
+      // How many pixels with the value are in the window [i - radius, i + radius]
+      let inWindow = 0;
+      for (let i = 0; i < Math.min(radius, length); i++) {
+        if (source[at(line, i)] === value) inWindow++;
+      }
+      for (let i = 0; i < length; i++) {
+        if (i + radius < length && source[at(line, i + radius)] === value) inWindow++;
+        if (i - radius - 1 >= 0 && source[at(line, i - radius - 1)] === value) inWindow--;
+        target[at(line, i)] = inWindow > 0 ? value : 1 - value;
+      }
+    }
+  };
+
+  slide(mask, horizontal, width, height, (y, x) => y * width + x);
+  slide(horizontal, result, height, width, (x, y) => y * width + x);
+  return result;
 }
 
 /**
- * Get region ID at specific coordinates
+ * Hand every pixel without a layer (outlines, bridges and noise) to the nearest one
+ * All layers grow outwards one pixel per round, so two layers meet halfway across a line
+ * Each round's frontier is kept as flat x and y arrays, swapped with the next round's
  */
-export function getRegionAt(
-  regionMap: RegionMap,
-  x: number,
-  y: number
-): number {
-  // Ensure coordinates are integers
-  x = Math.round(x);
-  y = Math.round(y);
+function growIntoBoundaries(lookup: Uint16Array, width: number, height: number): void {
+  const noLayer = NO_LAYER_SENTINEL; // Compared on every pixel: read the import once
 
-  // Check for NaN
-  if (isNaN(x) || isNaN(y)) {
-    return 0;
+  // A frontier never holds more than four pixels per pixel left to claim
+  let unclaimed = 0;
+  for (let index = 0; index < lookup.length; index++) {
+    if (lookup[index] === noLayer) unclaimed++;
   }
+  if (unclaimed === 0 || unclaimed === lookup.length) return;
 
-  if (x < 0 || x >= regionMap.width || y < 0 || y >= regionMap.height) {
-    return 0;
+  const capacity = Math.min(lookup.length, unclaimed * 4);
+  let frontierX = new Int32Array(capacity);
+  let frontierY = new Int32Array(capacity);
+  let nextX = new Int32Array(capacity);
+  let nextY = new Int32Array(capacity);
+  let frontierSize = 0;
+
+  // Start from the layer pixels next to a pixel without a layer
+  for (let y = 0; y < height; y++) {
+    for (let x = 0, index = y * width; x < width; x++, index++) {
+      if (lookup[index] === noLayer) continue;
+      if (
+        (x > 0 && lookup[index - 1] === noLayer) ||
+        (x < width - 1 && lookup[index + 1] === noLayer) ||
+        (y > 0 && lookup[index - width] === noLayer) ||
+        (y < height - 1 && lookup[index + width] === noLayer)
+      ) {
+        frontierX[frontierSize] = x;
+        frontierY[frontierSize++] = y;
+      }
+    }
   }
 
-  // Extra safety check for array access
-  if (!regionMap.pixelToRegion[y]) {
-    return 0;
+  while (frontierSize > 0) {
+    let nextSize = 0;
+    for (let i = 0; i < frontierSize; i++) {
+      const x = frontierX[i];
+      const y = frontierY[i];
+      const index = y * width + x;
+      const layerIndex = lookup[index];
+
+      if (x > 0 && lookup[index - 1] === noLayer) {
+        lookup[index - 1] = layerIndex;
+        nextX[nextSize] = x - 1;
+        nextY[nextSize++] = y;
+      }
+      if (x < width - 1 && lookup[index + 1] === noLayer) {
+        lookup[index + 1] = layerIndex;
+        nextX[nextSize] = x + 1;
+        nextY[nextSize++] = y;
+      }
+      if (y > 0 && lookup[index - width] === noLayer) {
+        lookup[index - width] = layerIndex;
+        nextX[nextSize] = x;
+        nextY[nextSize++] = y - 1;
+      }
+      if (y < height - 1 && lookup[index + width] === noLayer) {
+        lookup[index + width] = layerIndex;
+        nextX[nextSize] = x;
+        nextY[nextSize++] = y + 1;
+      }
+    }
+
+    [frontierX, nextX] = [nextX, frontierX];
+    [frontierY, nextY] = [nextY, frontierY];
+    frontierSize = nextSize;
   }
+}
+
+/**
+ * The bounding box of a region
+ */
+export function getRegionBounds(regionMap: RegionMap, regionId: number): PixelRect {
+  const b = (regionId - 1) * 4;
+  return {
+    x: regionMap.bounds[b],
+    y: regionMap.bounds[b + 1],
+    width: regionMap.bounds[b + 2],
+    height: regionMap.bounds[b + 3],
+  };
+}
 
-  return regionMap.pixelToRegion[y][x];
+/**
+ * Facts about a region (undefined for boundary and unknown IDs)
+ */
+export function getRegionInfo(regionMap: RegionMap, regionId: number): RegionInfo | undefined {
+  return regionId > 0 ? regionMap.regions[regionId - 1] : undefined;
 }
 
 /**
- * Get region ID at coordinates with boundary tolerance
- * If the pixel is a boundary (-1), check nearby pixels to see if they belong to a region
- * This allows drawing slightly onto boundary lines
+ * The buffers of a region map, to transfer between threads instead of copying
  */
-export function getRegionAtWithTolerance(
+export function getRegionMapTransferables(regionMap: RegionMap): ArrayBuffer[] {
+  const buffers = [
+    regionMap.pixelToRegion.buffer,
+    regionMap.lookup.buffer,
+    regionMap.bounds.buffer,
+  ] as ArrayBuffer[];
+  if (regionMap.bridges) buffers.push(regionMap.bridges.buffer as ArrayBuffer);
+  return buffers;
+}
+
+/**
+ * Get region ID at specific coordinates
+ */
+export function getRegionAt(
   regionMap: RegionMap,
   x: number,
-  y: number,
-  targetRegionId: number,
-  tolerance = 2
+  y: number
 ): number {
   // Ensure coordinates are integers
   x = Math.round(x);
   y = Math.round(y);
 
-  const regionId = getRegionAt(regionMap, x, y);
-
-  // If we're already in a region, return it
-  if (regionId > 0) {
-    return regionId;
+  // Check for NaN
+  if (isNaN(x) || isNaN(y)) {
+    return 0;
   }
 
-  // If we're on a boundary (-1), check nearby pixels
-  if (regionId === -1) {
-    // Check pixels within tolerance distance
-    for (let dy = -tolerance; dy <= tolerance; dy++) {
-      for (let dx = -tolerance; dx <= tolerance; dx++) {
-        if (dx === 0 && dy === 0) continue;
-
-        const nearbyX = x + dx;
-        const nearbyY = y + dy;
-
-        // Skip if out of bounds
-        if (nearbyX < 0 || nearbyX >= regionMap.width ||
-            nearbyY < 0 || nearbyY >= regionMap.height) {
-          continue;
-        }
-
-        const nearbyRegionId = getRegionAt(regionMap, nearbyX, nearbyY);
-
-        // If we find the target region nearby, treat this boundary pixel as part of it
-        if (nearbyRegionId === targetRegionId) {
-          return targetRegionId;
-        }
-      }
-    }
+  if (x < 0 || x >= regionMap.width || y < 0 || y >= regionMap.height) {
+    return 0;
   }
 
-  return regionId;
+  return regionMap.pixelToRegion[y * regionMap.width + x];
 }
@@ -0,0 +1,160 @@
+/**
+ * Stamps
+ * Stickers placed with a single tap, defined as data
+ *
+ * A stamp is either a vector shape (an SVG path in a 24x24 box, filled with
+ * the current color) or one of the page line-art images, tinted with the
+ * current color. Add a stamp by adding an entry to STAMPS.
+ */
+
+import type { StaticImageData } from "next/image"
+import type { PixelRect } from "./pixelRect"
+
+import pawImage from "@/assets/images/paw.png"
+import sunImage from "@/assets/images/sun.png"
+import snowflakeImage from "@/assets/images/snowflake.png"
+import balloonImage from "@/assets/images/balloon.png"
+import icecreamImage from "@/assets/images/icecream.png"
+
+export type StampDefinition =
+  | { id: string; name: string; kind: "shape"; path: string }
+  | { id: string; name: string; kind: "image"; src: StaticImageData }
+
+const SHAPE_BOX = 24
+
+export const STAMPS: StampDefinition[] = [
+  {
+    id: "star",
+    name: "Star",
+    kind: "shape",
+    path: "M12 2l2.9 6.26 6.86.74-5.13 4.64 1.45 6.76L12 16.9l-6.08 3.5 1.45-6.76L2.24 9l6.86-.74z",
+  },
+  {
+    id: "heart",
+    name: "Heart",
+    kind: "shape",
+    path: "M12 21.35l-1.45-1.32C5.4 15.36 2 12.28 2 8.5 2 5.42 4.42 3 7.5 3c1.74 0 3.41.81 4.5 2.09C13.09 3.81 14.76 3 16.5 3 19.58 3 22 5.42 22 8.5c0 3.78-3.4 6.86-8.55 11.54z",
+  },
+  {
+    id: "sunshine",
+    name: "Sunshine",
+    kind: "shape",
+    path:
+      "M12 7a5 5 0 1 1 0 10a5 5 0 1 1 0-10z" +
+      "M12 1l1.5 4h-3zM12 23l-1.5-4h3zM1 12l4-1.5v3zM23 12l-4 1.5v-3z" +
+      "M19.78 4.22L18 8.1 15.9 6zM4.22 4.22L8.1 6 6 8.1zM19.78 19.78L15.9 18 18 15.9zM4.22 19.78L6 15.9 8.1 18z",
+  },
+  { id: "paw", name: "Paw Print", kind: "image", src: pawImage },
+  { id: "sun", name: "Sun", kind: "image", src: sunImage },
+  { id: "snowflake", name: "Snowflake", kind: "image", src: snowflakeImage },
+  { id: "balloon", name: "Balloon", kind: "image", src: balloonImage },
+  { id: "icecream", name: "Ice Cream", kind: "image", src: icecreamImage },
+]
+
+export const DEFAULT_STAMP_ID = STAMPS[0].id
+
+const shapePaths = new Map<string, Path2D>()
+const images = new Map<string, HTMLImageElement>()
+const tintedImages = new Map<string, HTMLCanvasElement>()
+let imagesLoaded: Promise<void> | null = null
+
+/**
+ * Load the line-art stamp images (once)
+ * Image stamps can only be drawn after this resolves
+ */
+export function loadStampImages(): Promise<void> {
+  if (imagesLoaded) return imagesLoaded
+
+  imagesLoaded = Promise.all(
+    STAMPS.map((stamp) => {
+      if (stamp.kind !== "image") return Promise.resolve()
+
+      return new Promise<void>((resolve) => {
+        const img = new Image()
+        img.onload = () => {
+          images.set(stamp.id, img)
+          resolve()
+        }
+        // A missing sticker shouldn't block the others
+        img.onerror = () => resolve()
+        img.src = stamp.src.src
+      })
+    })
+  ).then(() => undefined)
+
+  return imagesLoaded
+}
+
+/**
+ * The line art recolored with a color (cached per stamp and color)
+ */
+function getTintedImage(stampId: string, color: string): HTMLCanvasElement | null {
+  const key = `${stampId}:${color}`
+  const cached = tintedImages.get(key)
+  if (cached) return cached
+
+  const img = images.get(stampId)
+  if (!img) return null
+
+  const canvas = document.createElement("canvas")
+  canvas.width = img.naturalWidth
+  canvas.height = img.naturalHeight
+  const ctx = canvas.getContext("2d")
+  if (!ctx) return null
+
+  // Keep the line art's shape, replace its color
+  ctx.drawImage(img, 0, 0)
+  ctx.globalCompositeOperation = "source-in"
+  ctx.fillStyle = color
+  ctx.fillRect(0, 0, canvas.width, canvas.height)
+
+  tintedImages.set(key, canvas)
+  return canvas
+}
+
+/**
+ * Draw a stamp centered on a point, fitted into a size x size box
+ */
+export function renderStamp(
+  ctx: CanvasRenderingContext2D,
+  stampId: string,
+  x: number,
+  y: number,
+  size: number,
+  color: string
+): void {
+  const stamp = STAMPS.find((s) => s.id === stampId)
+  if (!stamp) return
+
+  if (stamp.kind === "shape") {
+    let path = shapePaths.get(stamp.id)
+    if (!path) {
+      path = new Path2D(stamp.path)
+      shapePaths.set(stamp.id, path)
+    }
+
+    ctx.save()
+    ctx.translate(x - size / 2, y - size / 2)
+    ctx.scale(size / SHAPE_BOX, size / SHAPE_BOX)
+    ctx.fillStyle = color
+    ctx.fill(path)
+    ctx.restore()
+    return
+  }
+
+  const tinted = getTintedImage(stamp.id, color)
+  if (!tinted) return
+
+  // Fit the image into the box, keeping its aspect ratio
+  const scale = size / Math.max(tinted.width, tinted.height)
+  const width = tinted.width * scale
+  const height = tinted.height * scale
+  ctx.drawImage(tinted, x - width / 2, y - height / 2, width, height)
+}
+
+/**
+ * Pixel bounds a stamp can paint
+ */
+export function getStampBounds(x: number, y: number, size: number): PixelRect {
+  return { x: x - size / 2 - 1, y: y - size / 2 - 1, width: size + 2, height: size + 2 }
+}
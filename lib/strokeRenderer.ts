@@ -0,0 +1,257 @@
+/**
+ * Stroke Renderer
+ * Pressure- and tilt-sensitive brush rendering shared by all drawing modes
+ *
+ * Resolves the width and opacity of every point, then hands the path to the
+ * selected brush module (see lib/brushes) to paint.
+ */
+
+import { BRUSHES, type Brush, type BrushPaint, type BrushPoint, type BrushType } from "./brushes"
+import { createPatternPaint, type PatternFill } from "./patterns"
+import type { PixelRect } from "./pixelRect"
+import {
+  DEFAULT_PRESSURE,
+  MIN_PRESSURE_WIDTH_SCALE,
+  MAX_PRESSURE_WIDTH_SCALE,
+  MIN_PRESSURE_OPACITY,
+  TILT_SHADING_START_DEGREES,
+  TILT_WIDTH_BOOST,
+  TILT_OPACITY_FALLOFF,
+  MOUSE_MAX_SPEED,
+  MIN_SIMULATED_PRESSURE,
+  VELOCITY_PRESSURE_SMOOTHING,
+} from "./constants"
+
+export interface StrokePoint {
+  x: number
+  y: number
+  pressure: number // Normalized 0-1
+  tiltX: number // Degrees, -90 to 90
+  tiltY: number // Degrees, -90 to 90
+  time: number // Milliseconds
+}
+
+// The eraser comes with a hard edge (solid) or a feathered one (soft)
+export type EraserType = Extract<BrushType, "solid" | "soft">
+
+export interface BrushStyle {
+  color: string
+  size: number
+  type: BrushType // The eraser type for eraser strokes
+  isEraser: boolean // Restores the blank region instead of painting (see lib/eraser)
+  pattern?: PatternFill // Paint with a pattern or gradient of the color
+}
+
+/**
+ * The pointer fields the renderer reads
+ * Satisfied by native, React and synthetic (touch fallback) pointer events
+ */
+export interface PointerSample {
+  pointerType: string
+  pressure: number
+  tiltX?: number
+  tiltY?: number
+  timeStamp?: number
+}
+
+// Touch fields for Apple Pencil (force is missing from React's Touch, the rest are Safari-only)
+interface StylusTouch {
+  force?: number
+  touchType?: "direct" | "stylus"
+  altitudeAngle?: number
+  azimuthAngle?: number
+}
+
+/**
+ * Build a stroke point from canvas coordinates and the event that produced them
+ * Mouse input has no pressure, so it is simulated from pointer velocity
+ */
+export function createStrokePoint(
+  coords: { x: number; y: number },
+  sample: PointerSample,
+  previous: StrokePoint | null
+): StrokePoint {
+  const time = sample.timeStamp || performance.now()
+
+  let pressure: number
+  if (sample.pointerType === "mouse") {
+    pressure = simulatePressure(coords, time, previous)
+  } else {
+    // Pointers without pressure support report 0 (or 0.5 for touch)
+    pressure = sample.pressure > 0 ? sample.pressure : DEFAULT_PRESSURE
+  }
+
+  return {
+    x: coords.x,
+    y: coords.y,
+    pressure,
+    tiltX: sample.tiltX ?? 0,
+    tiltY: sample.tiltY ?? 0,
+    time,
+  }
+}
+
+/**
+ * Simulate pressure from velocity: slow strokes are heavy, fast strokes are light
+ * Smoothed against the previous point so the width doesn't jump between samples
+ */
+function simulatePressure(
+  coords: { x: number; y: number },
+  time: number,
+  previous: StrokePoint | null
+): number {
+  if (!previous) return DEFAULT_PRESSURE
+
+  const distance = Math.hypot(coords.x - previous.x, coords.y - previous.y)
+  const elapsed = Math.max(time - previous.time, 1)
+  const speed = Math.min(distance / elapsed / MOUSE_MAX_SPEED, 1)
+  const target = 1 - speed * (1 - MIN_SIMULATED_PRESSURE)
+
+  return previous.pressure + (target - previous.pressure) * VELOCITY_PRESSURE_SMOOTHING
+}
+
+/**
+ * Read pressure and tilt from a touch (used by the Safari touch fallback)
+ * Apple Pencil touches report force plus altitude/azimuth, which map onto tiltX/tiltY
+ */
+export function getTouchPointerFields(
+  touch: Touch | React.Touch
+): Omit<PointerSample, "timeStamp"> {
+  const stylus = touch as StylusTouch
+  const pointerType = stylus.touchType === "stylus" ? "pen" : "touch"
+  const pressure = stylus.force && stylus.force > 0 ? stylus.force : DEFAULT_PRESSURE
+
+  if (stylus.altitudeAngle === undefined || stylus.azimuthAngle === undefined) {
+    return { pointerType, pressure, tiltX: 0, tiltY: 0 }
+  }
+
+  // Altitude is measured from the surface, so cot(altitude) grows as the pencil lies flat
+  const cotAltitude = 1 / Math.tan(Math.max(stylus.altitudeAngle, 0.0001))
+  const toDegrees = 180 / Math.PI
+
+  return {
+    pointerType,
+    pressure,
+    tiltX: Math.atan(Math.cos(stylus.azimuthAngle) * cotAltitude) * toDegrees,
+    tiltY: Math.atan(Math.sin(stylus.azimuthAngle) * cotAltitude) * toDegrees,
+  }
+}
+
+/**
+ * How far the pencil is tilted past the shading threshold (0 = upright, 1 = flat)
+ */
+function getTiltShading(point: StrokePoint): number {
+  const tilt = Math.min(Math.hypot(point.tiltX, point.tiltY), 90)
+  if (tilt <= TILT_SHADING_START_DEGREES) return 0
+  return (tilt - TILT_SHADING_START_DEGREES) / (90 - TILT_SHADING_START_DEGREES)
+}
+
+/**
+ * Line width at a point: default pressure gives exactly the selected brush size
+ */
+export function getStrokeWidth(size: number, point: StrokePoint): number {
+  const pressureScale =
+    MIN_PRESSURE_WIDTH_SCALE +
+    (MAX_PRESSURE_WIDTH_SCALE - MIN_PRESSURE_WIDTH_SCALE) * point.pressure
+  return size * pressureScale * (1 + getTiltShading(point) * TILT_WIDTH_BOOST)
+}
+
+/**
+ * Opacity at a point: light touches and tilted shading are translucent
+ * The eraser always removes fully
+ */
+export function getStrokeOpacity(style: BrushStyle, point: StrokePoint): number {
+  if (style.isEraser) return 1
+
+  const pressureOpacity =
+    MIN_PRESSURE_OPACITY +
+    (1 - MIN_PRESSURE_OPACITY) * Math.min(point.pressure / DEFAULT_PRESSURE, 1)
+  return pressureOpacity * (1 - getTiltShading(point) * TILT_OPACITY_FALLOFF)
+}
+
+/**
+ * The brush a style paints with (the eraser shape is plain solid, or soft for the soft eraser)
+ */
+function getBrush(style: BrushStyle): Brush {
+  if (style.isEraser) return style.type === "soft" ? BRUSHES.soft : BRUSHES.solid
+  return BRUSHES[style.type] ?? BRUSHES.solid
+}
+
+/**
+ * What the brush paints with: the flat color, or a pattern or gradient of it
+ */
+function getBrushPaint(ctx: CanvasRenderingContext2D, style: BrushStyle): BrushPaint {
+  const paintStyle =
+    style.pattern && !style.isEraser
+      ? createPatternPaint(ctx, style.pattern, style.color)
+      : style.color
+  return { color: style.color, style: paintStyle }
+}
+
+function toBrushPoint(point: StrokePoint, style: BrushStyle): BrushPoint {
+  return {
+    ...point,
+    width: getStrokeWidth(style.size, point),
+    opacity: getStrokeOpacity(style, point),
+  }
+}
+
+/**
+ * Draw a polyline with the style's brush
+ */
+export function renderStrokePath(
+  ctx: CanvasRenderingContext2D,
+  points: StrokePoint[],
+  style: BrushStyle
+): void {
+  if (points.length < 2) return
+
+  ctx.save()
+  getBrush(style).renderPath(
+    ctx,
+    points.map((point) => toBrushPoint(point, style)),
+    getBrushPaint(ctx, style)
+  )
+  ctx.restore()
+}
+
+/**
+ * Draw a single dot (quick taps and the start of every stroke)
+ */
+export function renderStrokeDot(
+  ctx: CanvasRenderingContext2D,
+  point: StrokePoint,
+  style: BrushStyle
+): void {
+  ctx.save()
+  getBrush(style).renderDot(ctx, toBrushPoint(point, style), getBrushPaint(ctx, style))
+  ctx.restore()
+}
+
+/**
+ * Pixel bounds a path (or a single dot) can paint, including any brush texture past its edge
+ */
+export function getStrokeBounds(points: StrokePoint[], style: BrushStyle): PixelRect {
+  let minX = Infinity
+  let minY = Infinity
+  let maxX = -Infinity
+  let maxY = -Infinity
+  let maxWidth = 0
+
+  for (const point of points) {
+    minX = Math.min(minX, point.x)
+    minY = Math.min(minY, point.y)
+    maxX = Math.max(maxX, point.x)
+    maxY = Math.max(maxY, point.y)
+    maxWidth = Math.max(maxWidth, getStrokeWidth(style.size, point))
+  }
+
+  const margin = maxWidth / 2 + getBrush(style).getMargin(maxWidth) + 2
+
+  return {
+    x: minX - margin,
+    y: minY - margin,
+    width: maxX - minX + margin * 2,
+    height: maxY - minY + margin * 2,
+  }
+}
@@ -0,0 +1,133 @@
+/**
+ * Stroke Smoothing
+ * Turns raw pointer samples into smooth curves between input and rendering
+ *
+ * Each sample is first stabilized (pulled toward the previous point), then the
+ * path is drawn as quadratic curves between segment midpoints with the samples
+ * as control points. The stretch after the last midpoint isn't final until the
+ * next sample arrives, so it is exposed separately as a "tail" for previewing.
+ */
+
+import type { StrokePoint } from "./strokeRenderer"
+import { SMOOTHING_STEP_PX } from "./constants"
+
+export interface StrokeSmoother {
+  // Start a new stroke at a point (returns nothing - the dot is drawn separately)
+  begin: (point: StrokePoint) => void
+  // Add a sample and return the newly committed polyline (empty if none)
+  add: (point: StrokePoint) => StrokePoint[]
+  // The uncommitted polyline from the last committed point to the pen, plus any predicted points
+  tail: (predicted?: StrokePoint[]) => StrokePoint[]
+  // Finish the stroke, returning the remaining polyline to commit
+  end: () => StrokePoint[]
+}
+
+/**
+ * Linearly interpolate every stroke attribute between two points
+ */
+function lerpPoint(a: StrokePoint, b: StrokePoint, t: number): StrokePoint {
+  return {
+    x: a.x + (b.x - a.x) * t,
+    y: a.y + (b.y - a.y) * t,
+    pressure: a.pressure + (b.pressure - a.pressure) * t,
+    tiltX: a.tiltX + (b.tiltX - a.tiltX) * t,
+    tiltY: a.tiltY + (b.tiltY - a.tiltY) * t,
+    time: a.time + (b.time - a.time) * t,
+  }
+}
+
+/**
+ * Sample a quadratic curve from start to end with a control point
+ * Attributes other than position are interpolated linearly along the curve
+ */
+export function sampleQuadratic(
+  start: StrokePoint,
+  control: StrokePoint,
+  end: StrokePoint,
+  step = SMOOTHING_STEP_PX
+): StrokePoint[] {
+  // The control polygon length is a cheap upper bound on the curve length
+  const length =
+    Math.hypot(control.x - start.x, control.y - start.y) +
+    Math.hypot(end.x - control.x, end.y - control.y)
+  const steps = Math.max(1, Math.ceil(length / step))
+
+  const points: StrokePoint[] = [start]
+  for (let i = 1; i <= steps; i++) {
+    const t = i / steps
+    const u = 1 - t
+    const point = lerpPoint(start, end, t)
+    point.x = u * u * start.x + 2 * u * t * control.x + t * t * end.x
+    point.y = u * u * start.y + 2 * u * t * control.y + t * t * end.y
+    points.push(point)
+  }
+  return points
+}
+
+/**
+ * Create a smoother for one pointer
+ * @param stabilization - 0 draws raw input; values toward 1 trail the pen more steadily
+ */
+export function createStrokeSmoother(stabilization: number): StrokeSmoother {
+  const weight = 1 - Math.min(Math.max(stabilization, 0), 0.95)
+
+  // Last (up to) three stabilized points and the latest raw sample
+  let points: StrokePoint[] = []
+  let lastRaw: StrokePoint | null = null
+
+  const midpoint = (a: StrokePoint, b: StrokePoint) => lerpPoint(a, b, 0.5)
+
+  const tail = (predicted: StrokePoint[] = []): StrokePoint[] => {
+    if (points.length === 0 || !lastRaw) return []
+
+    // Nothing has moved since the stroke began (a tap) - the dot covers it
+    if (points.length === 1 && lastRaw === points[0] && predicted.length === 0) return []
+
+    const last = points[points.length - 1]
+    const start = points.length >= 2 ? midpoint(points[points.length - 2], last) : last
+    return [...sampleQuadratic(start, last, lastRaw), ...predicted]
+  }
+
+  return {
+    begin: (point) => {
+      points = [point]
+      lastRaw = point
+    },
+
+    add: (raw) => {
+      if (points.length === 0) {
+        points = [raw]
+        lastRaw = raw
+        return []
+      }
+
+      // Stabilize position only; pressure and tilt stay responsive
+      const previous = points[points.length - 1]
+      const point = {
+        ...raw,
+        x: previous.x + (raw.x - previous.x) * weight,
+        y: previous.y + (raw.y - previous.y) * weight,
+      }
+      points.push(point)
+      lastRaw = raw
+
+      if (points.length === 2) {
+        // Only one segment so far: straight line to its midpoint
+        return [points[0], midpoint(points[0], points[1])]
+      }
+
+      const [p0, p1, p2] = points
+      points.shift()
+      return sampleQuadratic(midpoint(p0, p1), p1, midpoint(p1, p2))
+    },
+
+    tail,
+
+    end: () => {
+      const remaining = tail()
+      points = []
+      lastRaw = null
+      return remaining
+    },
+  }
+}
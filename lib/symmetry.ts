@@ -0,0 +1,63 @@
+/**
+ * Symmetry
+ * Mirror and kaleidoscope copies of a stroke around the page center
+ *
+ * A symmetry setting expands to a list of point transforms, the first of
+ * which is always the identity (the child's own stroke). Each copy is drawn
+ * and logged as its own stroke, so it replays and undoes like any other.
+ */
+
+import type { StrokePoint } from "./strokeRenderer"
+
+export type SymmetryMode = "none" | "horizontal" | "vertical" | "kaleidoscope"
+
+export interface Symmetry {
+  mode: SymmetryMode
+  segments: number // Kaleidoscope only
+}
+
+export type PointTransform = (point: StrokePoint) => StrokePoint
+
+const identity: PointTransform = (point) => point
+
+/**
+ * Rotate a point (and its tilt direction) around a center
+ */
+function rotateAround(cx: number, cy: number, angle: number): PointTransform {
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+
+  return (point) => ({
+    ...point,
+    x: cx + (point.x - cx) * cos - (point.y - cy) * sin,
+    y: cy + (point.x - cx) * sin + (point.y - cy) * cos,
+    tiltX: point.tiltX * cos - point.tiltY * sin,
+    tiltY: point.tiltX * sin + point.tiltY * cos,
+  })
+}
+
+/**
+ * The transforms for every copy of a stroke (identity first)
+ */
+export function getSymmetryTransforms(
+  symmetry: Symmetry,
+  width: number,
+  height: number
+): PointTransform[] {
+  switch (symmetry.mode) {
+    case "horizontal":
+      // Mirrored left to right, across the vertical center line
+      return [identity, (point) => ({ ...point, x: width - point.x, tiltX: -point.tiltX })]
+    case "vertical":
+      // Mirrored top to bottom, across the horizontal center line
+      return [identity, (point) => ({ ...point, y: height - point.y, tiltY: -point.tiltY })]
+    case "kaleidoscope": {
+      const segments = Math.max(1, Math.round(symmetry.segments))
+      return Array.from({ length: segments }, (_, i) =>
+        i === 0 ? identity : rotateAround(width / 2, height / 2, (i * 2 * Math.PI) / segments)
+      )
+    }
+    default:
+      return [identity]
+  }
+}
@@ -0,0 +1,99 @@
+/**
+ * View Transform
+ * Zoom and pan of the canvas view, driven by two-finger pinch gestures
+ *
+ * The transform is applied with CSS (translate, then scale from the top-left
+ * corner) to a wrapper around the layers and the outline, so both stay aligned.
+ * Pointer coordinates need no extra mapping: getBoundingClientRect already
+ * reports the transformed canvas rect.
+ */
+
+import { MIN_ZOOM, MAX_ZOOM } from "./constants"
+
+export interface ViewTransform {
+  scale: number
+  x: number // Offset in view pixels
+  y: number
+}
+
+export interface PinchGesture {
+  startView: ViewTransform
+  startDistance: number
+  startMidpoint: { x: number; y: number } // In view pixels
+}
+
+export const IDENTITY_VIEW: ViewTransform = { scale: 1, x: 0, y: 0 }
+
+type TouchPoint = { clientX: number; clientY: number }
+
+/**
+ * Get the distance and midpoint of two touches, relative to the view
+ */
+function getTouchPair(a: TouchPoint, b: TouchPoint, viewRect: DOMRect) {
+  return {
+    distance: Math.hypot(b.clientX - a.clientX, b.clientY - a.clientY),
+    midpoint: {
+      x: (a.clientX + b.clientX) / 2 - viewRect.left,
+      y: (a.clientY + b.clientY) / 2 - viewRect.top,
+    },
+  }
+}
+
+/**
+ * Keep the page covering the whole view (no panning past its edges)
+ */
+export function clampView(
+  view: ViewTransform,
+  width: number,
+  height: number
+): ViewTransform {
+  const scale = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.scale))
+
+  return {
+    scale,
+    x: Math.min(0, Math.max(width * (1 - scale), view.x)),
+    y: Math.min(0, Math.max(height * (1 - scale), view.y)),
+  }
+}
+
+/**
+ * Start a pinch gesture from the current view and two touches
+ */
+export function beginPinch(
+  view: ViewTransform,
+  a: TouchPoint,
+  b: TouchPoint,
+  viewRect: DOMRect
+): PinchGesture {
+  const { distance, midpoint } = getTouchPair(a, b, viewRect)
+  return { startView: view, startDistance: Math.max(1, distance), startMidpoint: midpoint }
+}
+
+/**
+ * Get the view for the current touch positions of a pinch gesture
+ * (the page point under the fingers stays under the fingers)
+ */
+export function updatePinch(
+  gesture: PinchGesture,
+  a: TouchPoint,
+  b: TouchPoint,
+  viewRect: DOMRect
+): ViewTransform {
+  const { distance, midpoint } = getTouchPair(a, b, viewRect)
+  const { startView, startDistance, startMidpoint } = gesture
+
+  const scale = Math.min(
+    MAX_ZOOM,
+    Math.max(MIN_ZOOM, startView.scale * (distance / startDistance))
+  )
+
+  // Page point that was under the fingers when the gesture started
+  const pageX = (startMidpoint.x - startView.x) / startView.scale
+  const pageY = (startMidpoint.y - startView.y) / startView.scale
+
+  return clampView(
+    { scale, x: midpoint.x - pageX * scale, y: midpoint.y - pageY * scale },
+    viewRect.width,
+    viewRect.height
+  )
+}
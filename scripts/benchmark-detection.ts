@@ -0,0 +1,74 @@
+/**
+ * Region Detection Benchmark
+ * Times detection, masks and lookup table on every bundled page
+ *
+ * Run with `npm run benchmark`. For a before/after comparison, run it on both
+ * commits (the numbers in the README are from one core under Node 20).
+ */
+
+import { readdirSync, readFileSync } from "fs"
+import { join } from "path"
+import { PNG } from "pngjs"
+import { detectRegions, getRegionBounds, type RegionMap } from "../lib/regionDetection"
+import { BOUNDARY_THRESHOLD, MIN_REGION_SIZE } from "../lib/constants"
+
+const IMAGES_DIR = join(__dirname, "../assets/images")
+const RUNS = 3 // Best of, to skip warm-up and garbage collection pauses
+
+/**
+ * A page's pixels flattened onto white, like the image loader does
+ */
+function loadPage(file: string): ImageData {
+  const png = PNG.sync.read(readFileSync(join(IMAGES_DIR, file)))
+  const data = new Uint8ClampedArray(png.data.length)
+  for (let i = 0; i < data.length; i += 4) {
+    const alpha = png.data[i + 3] / 255
+    for (let c = 0; c < 3; c++) data[i + c] = Math.round(png.data[i + c] * alpha + 255 * (1 - alpha))
+    data[i + 3] = 255
+  }
+  return { width: png.width, height: png.height, data } as ImageData
+}
+
+/**
+ * Build every layer's mask the way generateLayers does (without the canvases,
+ * which Node doesn't have)
+ */
+function buildMasks(regionMap: RegionMap): Uint8ClampedArray[] {
+  const { width, regionCount, lookup } = regionMap
+  const masks: Uint8ClampedArray[] = []
+
+  for (let regionId = 1; regionId <= regionCount; regionId++) {
+    const bounds = getRegionBounds(regionMap, regionId)
+    const mask = new Uint8ClampedArray(bounds.width * bounds.height * 4)
+    for (let y = 0; y < bounds.height; y++) {
+      for (let x = 0; x < bounds.width; x++) {
+        if (lookup[(bounds.y + y) * width + bounds.x + x] === regionId - 1) {
+          const idx = (y * bounds.width + x) * 4
+          mask[idx] = mask[idx + 1] = mask[idx + 2] = mask[idx + 3] = 255
+        }
+      }
+    }
+    masks.push(mask)
+  }
+
+  return masks
+}
+
+let total = 0
+for (const file of readdirSync(IMAGES_DIR).filter((name) => name.endsWith(".png")).sort()) {
+  const page = loadPage(file)
+  let best = Infinity
+  let regionCount = 0
+
+  for (let run = 0; run < RUNS; run++) {
+    const start = performance.now()
+    const regionMap = detectRegions(page, BOUNDARY_THRESHOLD, MIN_REGION_SIZE)
+    buildMasks(regionMap)
+    best = Math.min(best, performance.now() - start)
+    regionCount = regionMap.regionCount
+  }
+
+  total += best
+  console.log(`${file.padEnd(16)} ${String(regionCount).padStart(3)} regions ${best.toFixed(0).padStart(6)} ms`)
+}
+console.log(`${"total".padEnd(28)} ${total.toFixed(0).padStart(6)} ms`)